@@ -0,0 +1,45 @@
+import { PicotestTestInfo } from './picotest-test-info';
+
+/**
+ * PicoTest executable
+ */
+export interface PicotestExecutable {
+  /** Test Explorer suite ID (empty when the executable is the only one) */
+  id: string;
+
+  /** Test command/path */
+  command: string;
+
+  /** Directory to run the test within */
+  cwd: string;
+
+  /** Arguments passed to test command at load time */
+  loadArgs: string;
+
+  /** Arguments passed to test command at run time */
+  runArgs: string;
+
+  /** Additional environment variables */
+  env: { [name: string]: string };
+
+  /** Launcher command prefix, e.g. `docker exec` (empty for none) */
+  launcher: string;
+
+  /** Path prefix of test process output recordings (empty for none) */
+  record: string;
+
+  /** Whether the command is the path prefix of recorded output to replay */
+  replay: boolean;
+
+  /** Test process to workspace path prefixes */
+  pathMappings: { [path: string]: string };
+
+  /** Discovered tests */
+  tests: PicotestTestInfo[];
+
+  /** Whether some tests were filtered out */
+  filtered?: boolean;
+
+  /** Modification time in ms of the test command file at load time */
+  mtime?: number;
+}
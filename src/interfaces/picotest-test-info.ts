@@ -6,4 +6,7 @@ export interface PicotestTestInfo {
   file: string;
   line: number;
   subtests?: PicotestTestInfo[];
+
+  /** Whether some subtests were filtered out */
+  filtered?: boolean;
 }
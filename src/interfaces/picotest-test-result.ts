@@ -4,4 +4,15 @@
 export interface PicotestTestResult {
   /** Process return code */
   code: number | null;
+
+  /** Signal that terminated the process, if any */
+  signal: string | null;
+
+  /** Test case that exceeded its timeout, if any */
+  timedOut?: {
+    testName: string;
+
+    /** Timeout in ms */
+    timeout: number;
+  };
 }
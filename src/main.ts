@@ -6,6 +6,13 @@ import * as vscode from 'vscode';
 import { TestHub, testExplorerExtensionId } from 'vscode-test-adapter-api';
 import { Log, TestAdapterRegistrar } from 'vscode-test-adapter-util';
 import { PicotestAdapter } from './picotest-adapter';
+import { PicotestController } from './picotest-controller';
+import { CONFIGURATION_SCOPE } from './picotest-config';
+import { initPicotestDebug } from './picotest-debug';
+import { initPicotestCoverage } from './picotest-coverage';
+import { initPicotestDiagnostics } from './picotest-diagnostics';
+import { initPicotestTiming } from './picotest-timing';
+import { PicotestHistory, showPicotestTestHistory } from './picotest-history';
 
 /**
  * Main extension entry point
@@ -24,6 +31,26 @@ export async function activate(context: vscode.ExtensionContext) {
   );
   context.subscriptions.push(log);
 
+  initPicotestDebug(context);
+  initPicotestCoverage(context);
+  initPicotestDiagnostics(context);
+  initPicotestTiming(context);
+
+  // the item argument is passed from the Testing view context menu
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'picotestExplorer.showTestHistory',
+      (item?: vscode.TestItem) =>
+        showPicotestTestHistory(
+          (vscode.workspace.workspaceFolders || []).map(
+            (workspaceFolder) =>
+              new PicotestHistory(context.workspaceState, workspaceFolder)
+          ),
+          item && item.id
+        )
+    )
+  );
+
   // get the Test Explorer extension
   const testExplorerExtension = vscode.extensions.getExtension<TestHub>(
     testExplorerExtensionId
@@ -31,14 +58,48 @@ export async function activate(context: vscode.ExtensionContext) {
   if (log.enabled)
     log.info(`Test Explorer ${testExplorerExtension ? '' : 'not '}found`);
 
-  if (testExplorerExtension) {
-    const testHub = testExplorerExtension.exports;
+  // choose the frontend; `auto` uses Test Explorer when available
+  const frontend = vscode.workspace
+    .getConfiguration(CONFIGURATION_SCOPE)
+    .get<'auto' | 'testExplorer' | 'native'>('frontend');
+  const testHub =
+    frontend !== 'native' && testExplorerExtension
+      ? testExplorerExtension.exports
+      : undefined;
+  const useNative = !testHub;
+  if (frontend === 'testExplorer' && !testExplorerExtension) {
+    vscode.window.showWarningMessage(
+      'Test Explorer is not installed, PicoTest tests use the native Testing API instead'
+    );
+  }
+  if (log.enabled)
+    log.info(`Using ${useNative ? 'native Testing API' : 'Test Explorer'}`);
 
+  // keep track of adapters & controllers for the rerun & repeat commands
+  const adapters = new Map<string, PicotestAdapter>();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders((e) =>
+      e.removed.forEach((workspaceFolder) =>
+        adapters.delete(workspaceFolder.uri.toString())
+      )
+    )
+  );
+  const controllers = new Map<string, PicotestController>();
+  registerRerunCommands(context, useNative ? controllers : adapters);
+  registerRepeatCommand(context, useNative ? controllers : adapters);
+
+  if (!testHub) {
+    registerPicotestControllers(context, log, controllers);
+  } else {
     // this will register a PicotestAdapter for each WorkspaceFolder
     context.subscriptions.push(
       new TestAdapterRegistrar(
         testHub,
-        (workspaceFolder) => new PicotestAdapter(workspaceFolder, log, context),
+        (workspaceFolder) => {
+          const adapter = new PicotestAdapter(workspaceFolder, log, context);
+          adapters.set(workspaceFolder.uri.toString(), adapter);
+          return adapter;
+        },
         log
       )
     );
@@ -46,3 +107,110 @@ export async function activate(context: vscode.ExtensionContext) {
 }
 
 export function deactivate() {}
+
+/**
+ * Register commands to rerun failed tests or the last run
+ *
+ * @param context Extension context
+ * @param runners Workspace folder URI to adapter or controller map
+ */
+function registerRerunCommands(
+  context: vscode.ExtensionContext,
+  runners: Map<string, PicotestAdapter | PicotestController>
+) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('picotestExplorer.rerunFailed', () =>
+      Promise.all([...runners.values()].map((runner) => runner.rerunFailed()))
+    ),
+    vscode.commands.registerCommand('picotestExplorer.rerunLast', () =>
+      Promise.all([...runners.values()].map((runner) => runner.rerunLast()))
+    )
+  );
+}
+
+/**
+ * Register command to run a test repeatedly until the first failure
+ *
+ * @param context Extension context
+ * @param runners Workspace folder URI to adapter or controller map
+ */
+function registerRepeatCommand(
+  context: vscode.ExtensionContext,
+  runners: Map<string, PicotestAdapter | PicotestController>
+) {
+  // the item argument is passed from the Testing view context menu
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'picotestExplorer.runRepeatedly',
+      async (item?: vscode.TestItem) => {
+        const candidates = [...runners.values()];
+        let selected:
+          | { runner: PicotestAdapter | PicotestController; id: string }
+          | undefined;
+        if (item) {
+          const runner = candidates.find((runner) =>
+            runner.getTestIds().includes(item.id)
+          );
+          if (runner) selected = { runner, id: item.id };
+        } else {
+          selected = await vscode.window.showQuickPick(
+            candidates.reduce(
+              (items, runner) =>
+                items.concat(
+                  runner.getTestIds().map((id) => ({ label: id, runner, id }))
+                ),
+              [] as (vscode.QuickPickItem & {
+                runner: PicotestAdapter | PicotestController;
+                id: string;
+              })[]
+            ),
+            { placeHolder: 'Select a test to run repeatedly' }
+          );
+        }
+        if (selected) await selected.runner.runRepeatedly([selected.id]);
+      }
+    )
+  );
+}
+
+/**
+ * Register a PicotestController for each workspace folder
+ *
+ * This is the native Testing API counterpart of TestAdapterRegistrar
+ *
+ * @param context Extension context
+ * @param log Logger
+ * @param controllers Workspace folder URI to controller map
+ */
+function registerPicotestControllers(
+  context: vscode.ExtensionContext,
+  log: Log,
+  controllers: Map<string, PicotestController>
+) {
+  const add = (workspaceFolder: vscode.WorkspaceFolder) => {
+    controllers.set(
+      workspaceFolder.uri.toString(),
+      new PicotestController(workspaceFolder, log, context)
+    );
+  };
+  const remove = (workspaceFolder: vscode.WorkspaceFolder) => {
+    const key = workspaceFolder.uri.toString();
+    const controller = controllers.get(key);
+    if (controller) controller.dispose();
+    controllers.delete(key);
+  };
+
+  (vscode.workspace.workspaceFolders || []).forEach(add);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders((e) => {
+      e.removed.forEach(remove);
+      e.added.forEach(add);
+    }),
+    {
+      dispose: () => {
+        controllers.forEach((controller) => controller.dispose());
+        controllers.clear();
+      },
+    }
+  );
+}
@@ -1,5 +1,4 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import {
   TestAdapter,
   TestLoadStartedEvent,
@@ -14,22 +13,42 @@ import {
 } from 'vscode-test-adapter-api';
 import { Log } from 'vscode-test-adapter-util';
 import { PicotestTestInfo } from './interfaces/picotest-test-info';
-import { PicotestTestProcess } from './interfaces/picotest-test-process';
+import { PicotestExecutable } from './interfaces/picotest-executable';
 import {
-  loadPicotestTests,
-  schedulePicotestTestProcess,
-  executePicotestTestProcess,
-  cancelPicotestTestProcess,
-  PicotestEvent,
+  getPicotestErrorMessage,
+  getPicotestComparison,
+  formatPicotestComparison,
   PicotestFailureEvent,
 } from './picotest-runner';
-
-/** VS Code configuration scope */
-const CONFIGURATION_SCOPE = 'picotestExplorer';
+import {
+  getMaxParallelProcesses,
+  isCoverageEnabled,
+  isMemcheckEnabled,
+  getRepeatOptions,
+  PicotestRepeatOptions,
+} from './picotest-config';
+import {
+  getChangedTests,
+  getTestsForSources,
+  groupTestsByExecutable,
+  getTestId,
+  getTestPath,
+  findPicotestTest,
+  PicotestTestRef,
+} from './picotest-executables';
+import { PicotestLoader, watchPicotestWorkspace } from './picotest-loader';
+import { debugPicotestTests } from './picotest-debug';
+import { shardTests, runShards } from './picotest-shards';
+import { PicotestRun, PicotestRunResult } from './picotest-run';
+import { PicotestHistory } from './picotest-history';
+import { PicotestTimings, withDuration } from './picotest-timing';
 
 /** Special ID value for the root suite */
 const ROOT_SUITE_ID = '*';
 
+/** Error message for runs without successfully loaded tests */
+const STALE_ERROR_MESSAGE = 'PicoTest tests must load successfully to run';
+
 /**
  * This class is intended as a starting point for implementing a "real" TestAdapter.
  * The file `README.md` contains further instructions.
@@ -37,20 +56,35 @@ const ROOT_SUITE_ID = '*';
 export class PicotestAdapter implements TestAdapter {
   private disposables: { dispose(): void }[] = [];
 
-  /** Discovered Picotest tests */
-  private picotestTests: PicotestTestInfo[] = [];
+  /** Discovered Picotest executables & tests */
+  private readonly loader: PicotestLoader;
+
+  /** Test Explorer ID to executable/test map */
+  private testIndex = new Map<string, PicotestTestRef>();
 
   /** State */
   private state: 'idle' | 'loading' | 'running' | 'cancelled' = 'idle';
 
-  /** Currently running test */
-  private currentTestProcess?: PicotestTestProcess;
+  /** Current test run */
+  private currentRun?: PicotestRun;
+
+  /** Test timings of the current or last run */
+  private timings = new PicotestTimings();
 
-  /** Currently debugged test config */
-  private debuggedTestConfig?: Partial<vscode.DebugConfiguration>;
+  /** Repeat options of the current run (undefined for a single run) */
+  private repeat?: PicotestRepeatOptions;
 
-  /** Test command file watcher for auto-reload */
-  private testCommandWatcher?: vscode.FileSystemWatcher;
+  /** Test run history */
+  private readonly history: PicotestHistory;
+
+  /** Test IDs passed to the last run */
+  private lastRunTests: string[] = [];
+
+  /** Test IDs that failed or errored in the last run */
+  private failedTests: string[] = [];
+
+  /** Per-run log for test output outside test cases */
+  private readonly outputChannel: vscode.OutputChannel;
 
   //
   // TestAdapter implementations
@@ -73,6 +107,9 @@ export class PicotestAdapter implements TestAdapter {
   > {
     return this.testStatesEmitter.event;
   }
+  get retire(): vscode.Event<RetireEvent> | undefined {
+    return this.retireEmitter.event;
+  }
   get autorun(): vscode.Event<void> | undefined {
     return this.autorunEmitter.event;
   }
@@ -84,11 +121,24 @@ export class PicotestAdapter implements TestAdapter {
   ) {
     this.log.info('Initializing PicoTest adapter');
 
-    this.initDebug(context);
-    this.initAutoReload();
+    this.loader = new PicotestLoader(workspaceFolder, context.workspaceState);
+    this.disposables.push(
+      watchPicotestWorkspace(
+        workspaceFolder,
+        log,
+        () => this.load(),
+        (files) => this.autorunTests(files)
+      )
+    );
 
+    this.history = new PicotestHistory(context.workspaceState, workspaceFolder);
+    this.outputChannel = vscode.window.createOutputChannel(
+      `PicoTest Output - ${workspaceFolder.name}`
+    );
+    this.disposables.push(this.outputChannel);
     this.disposables.push(this.testsEmitter);
     this.disposables.push(this.testStatesEmitter);
+    this.disposables.push(this.retireEmitter);
     this.disposables.push(this.autorunEmitter);
   }
 
@@ -96,23 +146,49 @@ export class PicotestAdapter implements TestAdapter {
     if (this.state !== 'idle') return; // it is safe to ignore a call to `load()`, even if it comes directly from the Test Explorer
 
     this.state = 'loading';
+    await this.loadTests();
+    this.state = 'idle';
+  }
+
+  /**
+   * Load tests regardless of the current state
+   */
+  private async loadTests() {
     this.log.info('Loading PicoTest tests');
     this.testsEmitter.fire(<TestLoadStartedEvent>{ type: 'started' });
 
+    if (this.loader.loadCache()) {
+      // Show the last known tests while loading the actual ones
+      this.testsEmitter.fire(<TestLoadFinishedEvent>{
+        type: 'finished',
+        suite: this.createTestSuite(true),
+      });
+      this.testsEmitter.fire(<TestLoadStartedEvent>{ type: 'started' });
+    }
+
     try {
-      const suite = await this.loadTestSuite();
+      // Load test lists of all executables
+      const previous = await this.loader.load();
       this.testsEmitter.fire(<TestLoadFinishedEvent>{
         type: 'finished',
-        suite,
+        suite: this.createTestSuite(false),
       });
+
+      // Retire changed tests only, others keep their state
+      const changed = getChangedTests(previous, this.loader.executables);
+      if (changed.length) {
+        this.retireEmitter.fire(<RetireEvent>{ tests: changed });
+      }
     } catch (e) {
+      // Keep showing the last known tests
       this.testsEmitter.fire(<TestLoadFinishedEvent>{
         type: 'finished',
+        suite: this.loader.executables.length
+          ? this.createTestSuite(true)
+          : undefined,
         errorMessage: e.toString(),
       });
     }
-
-    this.state = 'idle';
   }
 
   async run(tests: string[]): Promise<void> {
@@ -120,62 +196,164 @@ export class PicotestAdapter implements TestAdapter {
 
     this.state = 'running';
     this.log.info(`Running PicoTest tests ${JSON.stringify(tests)}`);
+    this.lastRunTests = tests;
+    this.failedTests = [];
+    this.outputChannel.clear();
+
+    let run: PicotestRun;
+    try {
+      // Settings may have unknown variables
+      run = new PicotestRun(this.workspaceFolder, this.log, this.history, {
+        coverage: isCoverageEnabled(this.workspaceFolder),
+        memcheck: isMemcheckEnabled(this.workspaceFolder),
+        repeat: this.repeat,
+      });
+
+      // Run the rebuilt executables, and only those of a successful load
+      if (await this.loader.runPreLaunchTask()) {
+        this.state = 'loading';
+        await this.loadTests();
+        this.state = 'running';
+      }
+      if (this.loader.stale) throw new Error(STALE_ERROR_MESSAGE);
+    } catch (e) {
+      // Don't run with invalid settings or stale executables
+      this.testStatesEmitter.fire(<TestRunStartedEvent>{
+        type: 'started',
+        tests,
+      });
+      this.fireErrored(tests, e.toString());
+      this.testStatesEmitter.fire(<TestRunFinishedEvent>{ type: 'finished' });
+      this.state = 'idle';
+      return;
+    }
+
+    this.currentRun = run;
+    this.timings = run.timings;
     this.testStatesEmitter.fire(<TestRunStartedEvent>{
       type: 'started',
       tests,
     });
 
-    const runAll = tests.length == 1 && tests[0] === ROOT_SUITE_ID;
-    if (runAll) {
-      try {
-        this.testStatesEmitter.fire(<TestSuiteEvent>{
-          type: 'suite',
-          suite: ROOT_SUITE_ID,
-          state: 'running',
-        });
-        await this.runTests([]);
-        this.testStatesEmitter.fire(<TestSuiteEvent>{
-          type: 'suite',
-          suite: ROOT_SUITE_ID,
-          state: 'completed',
-        });
-      } catch (e) {
-        this.testStatesEmitter.fire(<TestSuiteEvent>{
-          type: 'suite',
-          suite: ROOT_SUITE_ID,
-          state: 'errored',
-          message: e.toString(),
-        });
-      }
-    } else {
-      try {
-        await this.runTests(tests);
-      } catch (e) {
-        // Fail silently
+    try {
+      await run.resetCoverage(this.loader.executables);
+
+      const runAll = tests.length == 1 && tests[0] === ROOT_SUITE_ID;
+      if (runAll) {
+        try {
+          this.testStatesEmitter.fire(<TestSuiteEvent>{
+            type: 'suite',
+            suite: ROOT_SUITE_ID,
+            state: 'running',
+          });
+          await this.runTests(run, []);
+          this.testStatesEmitter.fire(<TestSuiteEvent>{
+            type: 'suite',
+            suite: ROOT_SUITE_ID,
+            state: 'completed',
+          });
+        } catch (e) {
+          this.testStatesEmitter.fire(<TestSuiteEvent>{
+            type: 'suite',
+            suite: ROOT_SUITE_ID,
+            state: 'errored',
+            message: e.toString(),
+          });
+        }
+      } else {
+        try {
+          await this.runTests(run, tests);
+        } catch (e) {
+          // Fail silently
+        }
       }
+
+      this.outputChannel.append(await run.finish(this.loader.executables));
+    } finally {
+      this.currentRun = undefined;
+      this.testStatesEmitter.fire(<TestRunFinishedEvent>{ type: 'finished' });
+      this.state = 'idle';
     }
+  }
 
-    this.testStatesEmitter.fire(<TestRunFinishedEvent>{ type: 'finished' });
-    this.state = 'idle';
+  /**
+   * Rerun tests that failed or errored in the last run
+   */
+  async rerunFailed(): Promise<void> {
+    if (!this.failedTests.length) return;
+    await this.run(this.failedTests);
+  }
+
+  /**
+   * Run tests repeatedly until the first failure
+   *
+   * @param tests Test IDs
+   */
+  async runRepeatedly(tests: string[]): Promise<void> {
+    if (this.state !== 'idle') return;
+    this.repeat = getRepeatOptions(this.workspaceFolder);
+    try {
+      await this.run(tests);
+    } finally {
+      this.repeat = undefined;
+    }
+  }
+
+  /**
+   * Get IDs of all tests
+   */
+  getTestIds() {
+    return [...this.testIndex.keys()];
+  }
+
+  /**
+   * Rerun the tests of the last run
+   */
+  async rerunLast(): Promise<void> {
+    if (!this.lastRunTests.length) return;
+    await this.run(this.lastRunTests);
   }
 
   async debug(tests: string[]): Promise<void> {
     this.log.info(`Debugging PicoTest tests ${JSON.stringify(tests)}`);
 
+    let reload = false;
     try {
-      for (const test of tests) {
-        await this.debugTest(test);
+      reload = await this.loader.runPreLaunchTask();
+    } catch (e) {
+      this.log.error('Error running PicoTest pre-launch task', e.toString());
+      vscode.window.showErrorMessage(e.message);
+      return;
+    }
+    if (reload) await this.load();
+    if (this.loader.stale) {
+      vscode.window.showErrorMessage(STALE_ERROR_MESSAGE);
+      return;
+    }
+
+    const refs: PicotestTestRef[] = [];
+    for (const test of tests) {
+      if (test === ROOT_SUITE_ID) {
+        refs.push(
+          ...this.loader.executables.map((executable) => ({ executable }))
+        );
+      } else {
+        const ref = this.testIndex.get(test);
+        if (ref) refs.push(ref);
       }
+    }
+    try {
+      await debugPicotestTests(this.workspaceFolder, refs);
     } catch (e) {
-      // Fail silently
+      this.log.error('Error debugging PicoTest tests', e.toString());
+      vscode.window.showErrorMessage(e.message);
     }
   }
 
   cancel(): void {
     if (this.state !== 'running') return; // ignore
 
-    if (this.currentTestProcess)
-      cancelPicotestTestProcess(this.currentTestProcess);
+    if (this.currentRun) this.currentRun.cancel();
 
     // State will eventually transition to idle once the run loop completes
     this.state = 'cancelled';
@@ -187,345 +365,261 @@ export class PicotestAdapter implements TestAdapter {
       disposable.dispose();
     }
     this.disposables = [];
-    this.unregisterWatcher();
   }
 
   /**
-   * Load test suite
+   * Create test suite from the current executables
+   *
+   * @param stale Whether the tests may be outdated
    */
-  private async loadTestSuite(): Promise<TestSuiteInfo> {
-    // Get & substitute config settings
-    const [testCommand, testCwd, loadArgs] = await this.getConfigStrings([
-      'testCommand',
-      'testCwd',
-      'loadArgs',
-    ]);
-
-    // Load test list
-    const cwd = path.resolve(this.workspaceFolder.uri.fsPath, testCwd);
-    this.picotestTests = await loadPicotestTests(testCommand, cwd, loadArgs);
+  private createTestSuite(stale: boolean): TestSuiteInfo {
+    const executables = this.loader.executables;
 
     // Convert to Text Explorer format
+    this.testIndex.clear();
+    const children =
+      executables.length == 1
+        ? this.convertPicotestTests(executables[0], executables[0].tests)
+        : executables.map((executable) => {
+            this.testIndex.set(executable.id, { executable });
+            return <TestSuiteInfo>{
+              type: 'suite',
+              id: executable.id,
+              label: executable.id,
+              children: this.convertPicotestTests(executable, executable.tests),
+            };
+          });
     const suite: TestSuiteInfo = {
       type: 'suite',
       id: ROOT_SUITE_ID,
       label: 'PicoTest', // the label of the root node should be the name of the testing framework
-      children: this.picotestTests.map(convertPicotestInfo),
+      children,
     };
+    if (stale) {
+      suite.description = 'stale';
+      suite.tooltip = 'Test list from the last successful load';
+    }
     return suite;
   }
 
   /**
-   * Run tests
+   * Convert PicoTest tests to Text Explorer format and index them
    *
-   * @param tests Test IDs (empty for all)
+   * @param executable Executable owning the tests
+   * @param tests PicoTest tests to convert
+   * @param parentPath Path of the parent suite (undefined for top-level tests)
    */
-  private async runTests(tests: string[]) {
-    if (this.state === 'cancelled') {
-      // Test run cancelled, retire test
-      this.retireEmitter.fire(<RetireEvent>{ tests });
-      return;
-    }
-
-    try {
-      // Get & substitute config settings
-      const [testCommand, testCwd, runArgs] = await this.getConfigStrings([
-        'testCommand',
-        'testCwd',
-        'runArgs',
-      ]);
-      const cwd = path.resolve(this.workspaceFolder.uri.fsPath, testCwd);
-
-      // Run tests
-      this.currentTestProcess = schedulePicotestTestProcess(
-        testCommand,
-        cwd,
-        tests,
-        runArgs
-      );
-      let failures: PicotestFailureEvent[] = [];
-      await executePicotestTestProcess(
-        this.currentTestProcess,
-        (event: PicotestEvent) => {
-          switch (event.hook) {
-            case 'FAILURE':
-              failures.push(event);
-              break;
-            case 'SUITE_ENTER':
-              this.testStatesEmitter.fire(<TestSuiteEvent>{
-                type: 'suite',
-                suite: event.suiteName,
-                state: 'running',
-              });
-              break;
-            case 'SUITE_LEAVE':
-              this.testStatesEmitter.fire(<TestSuiteEvent>{
-                type: 'suite',
-                suite: event.suiteName,
-                state: 'completed',
-              });
-              break;
-            case 'CASE_ENTER':
-              this.testStatesEmitter.fire(<TestEvent>{
-                type: 'test',
-                test: event.testName,
-                state: 'running',
-              });
-              failures = [];
-              break;
-            case 'CASE_LEAVE':
-              this.testStatesEmitter.fire(<TestEvent>{
-                type: 'test',
-                test: event.testName,
-                state: event.fail ? 'failed' : 'passed',
-                decorations: failures.map(toDecoration),
-                message: failures.map(toMessage).join('\n'),
-              });
-              break;
-          }
-        }
+  private convertPicotestTests(
+    executable: PicotestExecutable,
+    tests: PicotestTestInfo[],
+    parentPath?: string
+  ): (TestSuiteInfo | TestInfo)[] {
+    return tests.map((test) => {
+      const testPath = getTestPath(parentPath, test.name);
+      const id = getTestId(executable, testPath);
+      this.testIndex.set(id, { executable, name: testPath });
+      const info = convertPicotestInfo(
+        test,
+        id,
+        test.subtests &&
+          this.convertPicotestTests(executable, test.subtests, testPath)
       );
-    } finally {
-      this.currentTestProcess = undefined;
-    }
+      return info.type === 'test'
+        ? { ...info, ...this.history.getFlakyInfo(id) }
+        : info;
+    });
   }
 
   /**
-   * Debug a single test or test suite
+   * Run tests
    *
-   * @param test Test ID
+   * @param run Test run
+   * @param tests Test IDs (empty for all)
    */
-  private async debugTest(test: string) {
-    this.log.info(`Debugging PicoTest test ${test}`);
+  private async runTests(run: PicotestRun, tests: string[]) {
+    const refs =
+      tests.length == 0
+        ? this.loader.executables.map((executable) => ({ executable }))
+        : tests
+            .map((test) => this.testIndex.get(test))
+            .filter((ref): ref is PicotestTestRef => !!ref);
+    const maxParallelProcesses = getMaxParallelProcesses(this.workspaceFolder);
+    const { shards, splitSuites } = shardTests(
+      groupTestsByExecutable(refs),
+      maxParallelProcesses
+    );
+
+    // Split suites are run piecewise by several shards
+    const fireSplitSuites = (state: 'running' | 'completed') => {
+      for (const { executable, name } of splitSuites) {
+        this.testStatesEmitter.fire(<TestSuiteEvent>{
+          type: 'suite',
+          suite: getTestId(executable, name),
+          state,
+        });
+      }
+    };
+    fireSplitSuites('running');
     try {
-      // Get & substitute config settings
-      const [
-        testCommand,
-        testCwd,
-        runArgs,
-        debugConfig,
-      ] = await this.getConfigStrings([
-        'testCommand',
-        'testCwd',
-        'runArgs',
-        'debugConfig',
-      ]);
-
-      // Get test config
-      const defaultConfig = this.getDefaultDebugConfiguration();
-
-      // Remember test-specific config for the DebugConfigurationProvider
-      // registered in initDebug()
-      const cwd = path.resolve(this.workspaceFolder.uri.fsPath, testCwd);
-      this.debuggedTestConfig = this.getPicotestDebugConfiguration(
-        testCommand,
-        cwd,
-        test,
-        runArgs
-      );
+      await runShards(
+        shards,
+        maxParallelProcesses,
+        async ({ executable, tests }) => {
+          if (run.isCancelled()) {
+            // Test run cancelled, retire tests
+            this.retireEmitter.fire(<RetireEvent>{
+              tests: tests.length
+                ? tests.map((name) => getTestId(executable, name))
+                : [executable.id || ROOT_SUITE_ID],
+            });
+            return;
+          }
 
-      // Start the debugging session. The actual debug config will combine the
-      // global and test-specific values
-      await vscode.debug.startDebugging(
-        this.workspaceFolder,
-        debugConfig || defaultConfig
+          try {
+            await this.runExecutableTests(run, executable, tests);
+          } catch (e) {
+            this.fireErrored(
+              tests.length
+                ? tests.map((name) => getTestId(executable, name))
+                : [executable.id || ROOT_SUITE_ID],
+              e.toString()
+            );
+          }
+        }
       );
-    } catch (e) {
-      this.log.error(`Error debugging PicoTest test ${test}`, e.toString());
     } finally {
-      this.debuggedTestConfig = undefined;
+      fireSplitSuites('completed');
     }
   }
 
   /**
-   * Debug-related initialization
+   * Run tests of a single executable
    *
-   * @param context Extension context
-   */
-  private initDebug(context: vscode.ExtensionContext) {
-    // Register a DebugConfigurationProvider to combine global and
-    // test-specific debug configurations (see debugTest)
-    context.subscriptions.push(
-      vscode.debug.registerDebugConfigurationProvider('cppdbg', {
-        resolveDebugConfiguration: (
-          folder: vscode.WorkspaceFolder | undefined,
-          config: vscode.DebugConfiguration,
-          token?: vscode.CancellationToken
-        ): vscode.ProviderResult<vscode.DebugConfiguration> => {
-          return {
-            ...config,
-            ...this.debuggedTestConfig,
-          };
-        },
-      })
-    );
-  }
-
-  /**
-   * Get default debug config when none is specified in the settings
+   * @param run Test run
+   * @param executable Executable to run
+   * @param tests Test names (empty for all)
    */
-  private getDefaultDebugConfiguration(): vscode.DebugConfiguration {
-    return {
-      name: 'CTest',
-      type: 'cppdbg',
-      request: 'launch',
-      windows: {
-        type: 'cppvsdbg',
+  private async runExecutableTests(
+    run: PicotestRun,
+    executable: PicotestExecutable,
+    tests: string[]
+  ) {
+    await run.runExecutable(executable, tests, {
+      started: (id, suite) => {
+        if (suite) {
+          this.testStatesEmitter.fire(<TestSuiteEvent>{
+            type: 'suite',
+            suite: id,
+            state: 'running',
+          });
+        } else {
+          this.testStatesEmitter.fire(<TestEvent>{
+            type: 'test',
+            test: id,
+            state: 'running',
+          });
+        }
       },
-      linux: {
-        type: 'cppdbg',
-        MIMode: 'gdb',
+      completed: (result) => {
+        if (result.suite) {
+          this.testStatesEmitter.fire(<TestSuiteEvent>{
+            type: 'suite',
+            suite: result.id,
+            state: 'completed',
+            ...withDuration({}, this.timings.get(result.id)),
+          });
+        } else {
+          this.fireTestEvent(result);
+        }
       },
-      osx: {
-        type: 'cppdbg',
-        MIMode: 'lldb',
+      output: (text, captured) => {
+        // Test case output goes to its message
+        if (!captured) this.outputChannel.append(text);
       },
-    };
-  }
-  /**
-   * Get debug configuration for a single PicoTest test
-   *
-   * @param test Test to debug
-   */
-  private getPicotestDebugConfiguration(
-    command: string,
-    cwd: string,
-    test: string,
-    runArgs: string
-  ): Partial<vscode.DebugConfiguration> {
-    return test === ROOT_SUITE_ID
-      ? {
-          name: `PicoTest`,
-          program: command,
-          args: runArgs,
-          cwd,
-        }
-      : {
-          name: `PicoTest ${test}`,
-          program: command,
-          args: [...runArgs, test],
-          cwd,
-        };
-  }
-
-  /**
-   * Get workspace configuration object
-   */
-  private getWorkspaceConfiguration() {
-    return vscode.workspace.getConfiguration(
-      CONFIGURATION_SCOPE,
-      this.workspaceFolder.uri
-    );
+    });
   }
 
   /**
-   * Get & substitute config settings
+   * Fire test event for a completed test case
    *
-   * @param name Config names
+   * Flaky tests are flagged in the description & tooltip along with the test
+   * duration. Failed tests are remembered for rerunFailed()
    *
-   * @return Config values
+   * @param result Test case result
    */
-  private getConfigStrings(names: string[]) {
-    const config = this.getWorkspaceConfiguration();
-    const varMap = this.getVariableSubstitutionMap();
-    return names.map((name) => this.configGetStr(config, varMap, name));
+  private fireTestEvent({
+    id,
+    outcome,
+    message,
+    failures,
+    output,
+  }: PicotestRunResult) {
+    if (outcome === 'failed' || outcome === 'errored') {
+      this.failedTests.push(id);
+    }
+    this.testStatesEmitter.fire(<TestEvent>{
+      type: 'test',
+      test: id,
+      state: outcome,
+      decorations: failures.map(toDecoration),
+      message:
+        outcome === 'skipped'
+          ? message
+          : formatMessage(message ? [message] : [], failures, output),
+      ...withDuration(this.history.getFlakyInfo(id), this.timings.get(id)),
+    });
   }
 
   /**
-   * Get & substitute config settings
+   * Fire errored state for tests that couldn't be run
    *
-   * @param config VS Code workspace configuration
-   * @param varMap Variable to value map
-   * @param key Config name
+   * @param tests Test IDs
+   * @param message Error message
    */
-  private configGetStr(
-    config: vscode.WorkspaceConfiguration,
-    varMap: Map<string, string>,
-    key: string
-  ) {
-    const configStr = config.get<string>(key) || '';
-    let str = configStr;
-    varMap.forEach((value, key) => {
-      while (str.indexOf(key) > -1) {
-        str = str.replace(key, value);
+  private fireErrored(tests: string[], message: string) {
+    for (const test of tests) {
+      const ref = this.testIndex.get(test);
+      const info =
+        ref && ref.name !== undefined
+          ? findPicotestTest(ref.executable.tests, ref.name)
+          : undefined;
+      if (info && !info.subtests) {
+        this.testStatesEmitter.fire(<TestEvent>{
+          type: 'test',
+          test,
+          state: 'errored',
+          message,
+        });
+      } else {
+        this.testStatesEmitter.fire(<TestSuiteEvent>{
+          type: 'suite',
+          suite: test,
+          state: 'errored',
+          message,
+        });
       }
-    });
-    return str;
-  }
-
-  /**
-   * Get variable to value substitution map for config strings
-   */
-  private getVariableSubstitutionMap() {
-    // Standard variables
-    const substitutionMap = new Map<string, string>([
-      ['${workspaceFolder}', this.workspaceFolder.uri.fsPath],
-    ]);
-
-    return substitutionMap;
-  }
-
-  /**
-   * Auto-reload-specific initialization
-   */
-  private async initAutoReload() {
-    this.registerWatcher();
-
-    // Register test command watcher again whenever settings change
-    vscode.workspace.onDidChangeConfiguration(
-      (e) => {
-        if (
-          e.affectsConfiguration(CONFIGURATION_SCOPE, this.workspaceFolder.uri)
-        ) {
-          this.unregisterWatcher();
-          this.registerWatcher();
-        }
-      },
-      this,
-      this.disposables
-    );
-  }
-
-  /**
-   * Check whether auto-reload option is activated
-   */
-  private autoReload() {
-    const config = this.getWorkspaceConfiguration();
-    return !!config.get<boolean>('autoReload');
-  }
-
-  /**
-   * Register test command file watcher
-   */
-  private registerWatcher() {
-    if (!this.autoReload()) return;
-
-    // Get & substitute config settings
-    const [testCommand, testCwd] = this.getConfigStrings([
-      'testCommand',
-      'testCwd',
-    ]);
-    const command = path.resolve(
-      this.workspaceFolder.uri.fsPath,
-      testCwd,
-      testCommand
-    );
-    this.testCommandWatcher = vscode.workspace.createFileSystemWatcher(
-      command,
-      false,
-      false,
-      true
-    );
-    this.testCommandWatcher.onDidCreate(() => this.load());
-    this.testCommandWatcher.onDidChange(() => this.load());
+    }
   }
 
   /**
-   * Unregister test command file watcher
+   * Trigger autorun of tests affected by source changes
+   *
+   * @param files Paths of changed files
    */
-  private unregisterWatcher() {
-    if (this.testCommandWatcher) this.testCommandWatcher.dispose();
-    this.testCommandWatcher = undefined;
+  private autorunTests(files: string[]) {
+    const refs = getTestsForSources(this.loader.executables, files);
+    if (!refs) {
+      this.autorunEmitter.fire();
+    } else if (refs.length) {
+      // Test Explorer autoruns retired tests
+      this.retireEmitter.fire(<RetireEvent>{
+        tests: refs.map(({ executable, name }) =>
+          name === undefined
+            ? executable.id || ROOT_SUITE_ID
+            : getTestId(executable, name)
+        ),
+      });
+    }
   }
 }
 
@@ -533,21 +627,27 @@ export class PicotestAdapter implements TestAdapter {
  * Convert PicoTest test to Text Explorer format
  *
  * @param test PicoTest test to convert
+ * @param id Test Explorer ID
+ * @param children Converted subtests (undefined for test cases)
  */
-function convertPicotestInfo(test: PicotestTestInfo): TestSuiteInfo | TestInfo {
-  if (test.subtests) {
+function convertPicotestInfo(
+  test: PicotestTestInfo,
+  id: string,
+  children?: (TestSuiteInfo | TestInfo)[]
+): TestSuiteInfo | TestInfo {
+  if (children) {
     return {
       type: 'suite',
-      id: test.name,
+      id,
       label: test.name,
       file: test.file,
       line: test.line - 1,
-      children: test.subtests.map(convertPicotestInfo),
+      children,
     };
   } else {
     return {
       type: 'test',
-      id: test.name,
+      id,
       label: test.name,
       file: test.file,
       line: test.line - 1,
@@ -555,17 +655,6 @@ function convertPicotestInfo(test: PicotestTestInfo): TestSuiteInfo | TestInfo {
   }
 }
 
-/**
- * Format PicoTest error message from failure event
- *
- * @param event PicoTest failure event
- */
-function getErrorMessage(event: PicotestFailureEvent) {
-  return event.msg
-    ? `[${event.type}] ${event.test} | ${event.msg}`
-    : `[${event.type}] ${event.test}`;
-}
-
 /**
  * Convert Picotest failure event to Test Explorer decoration
  *
@@ -575,15 +664,43 @@ function toDecoration(event: PicotestFailureEvent) {
   return {
     line: event.line - 1,
     file: event.file,
-    message: getErrorMessage(event),
+    message: getPicotestErrorMessage(event),
   };
 }
 
 /**
  * Convert Picotest failure event to error message
  *
+ * Comparison failures are followed by an expected/actual diff.
+ *
  * @param event PicoTest failure event
  */
 function toMessage(event: PicotestFailureEvent) {
-  return `${event.file}:${event.line} - ${getErrorMessage(event)}`;
+  const message = `${event.file}:${event.line} - ${getPicotestErrorMessage(
+    event
+  )}`;
+  const comparison = getPicotestComparison(event);
+  return comparison
+    ? `${message}\n${formatPicotestComparison(comparison)}`
+    : message;
+}
+
+/**
+ * Format Test Explorer message
+ *
+ * @param messages Leading messages
+ * @param events PicoTest failure events
+ * @param output Captured test output
+ */
+function formatMessage(
+  messages: string[],
+  events: PicotestFailureEvent[],
+  output?: string[]
+) {
+  const lines = [...messages, ...events.map(toMessage)];
+  if (output && output.length) {
+    if (lines.length) lines.push('');
+    lines.push(output.join(''));
+  }
+  return lines.join('\n');
 }
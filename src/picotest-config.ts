@@ -0,0 +1,481 @@
+/**
+ * @file Configuration settings
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const minimatch = require('minimatch');
+
+/** VS Code configuration scope */
+export const CONFIGURATION_SCOPE = 'picotestExplorer';
+
+/** Config string variable pattern, e.g. `${workspaceFolder}` */
+const VARIABLE_PATTERN = /\$\{([^{}]*)\}/g;
+
+/** Test filter settings */
+const TEST_FILTER_SETTINGS = [
+  'include',
+  'exclude',
+  'includeTags',
+  'excludeTags',
+];
+
+/** Test selection filter */
+export interface PicotestTestFilter {
+  /** Glob patterns of test paths or names to include (empty for all) */
+  include: string[];
+
+  /** Glob patterns of test paths or names to exclude */
+  exclude: string[];
+
+  /** Tags to include (empty for all) */
+  includeTags: string[];
+
+  /** Tags to exclude */
+  excludeTags: string[];
+}
+
+/** Repeated run options */
+export interface PicotestRepeatOptions {
+  /** Maximum number of iterations */
+  count: number;
+
+  /** Time budget in ms (0 for none) */
+  timeBudget: number;
+}
+
+/** Variables supported in settings, for error messages */
+const SUPPORTED_VARIABLES = [
+  '${workspaceFolder}',
+  '${workspaceFolder:name}',
+  '${workspaceFolderBasename}',
+  '${userHome}',
+  '${pathSeparator}',
+  '${env:NAME}',
+  '${config:NAME}',
+  '${command:ID}',
+].join(', ');
+
+/** Cached `${command:...}` variable values per workspace folder URI */
+const commandVariables = new Map<string, Map<string, string>>();
+
+/**
+ * Get workspace configuration object
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function getWorkspaceConfiguration(
+  workspaceFolder: vscode.WorkspaceFolder
+) {
+  return vscode.workspace.getConfiguration(
+    CONFIGURATION_SCOPE,
+    workspaceFolder.uri
+  );
+}
+
+/**
+ * Get & substitute config settings
+ *
+ * @param workspaceFolder Workspace folder
+ * @param name Config names
+ *
+ * @return Config values
+ */
+export function getConfigStrings(
+  workspaceFolder: vscode.WorkspaceFolder,
+  names: string[]
+) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const varMap = getVariableSubstitutionMap(workspaceFolder);
+  return names.map((name) => configGetStr(config, varMap, name));
+}
+
+/**
+ * Get & substitute config settings
+ *
+ * @param config VS Code workspace configuration
+ * @param varMap Variable to value map
+ * @param key Config name
+ */
+export function configGetStr(
+  config: vscode.WorkspaceConfiguration,
+  varMap: Map<string, string>,
+  key: string
+) {
+  const configStr = config.get<string>(key) || '';
+  return substituteVariables(configStr, varMap);
+}
+
+/**
+ * Substitute variables in string
+ *
+ * Besides the variables of the substitution map, `${env:NAME}` is replaced
+ * by the value of the environment variable NAME (empty if undefined).
+ *
+ * @param configStr String to substitute
+ * @param varMap Variable to value map
+ *
+ * @throws Error on unknown variables
+ */
+export function substituteVariables(
+  configStr: string,
+  varMap: Map<string, string>
+) {
+  return configStr.replace(VARIABLE_PATTERN, (variable, name: string) => {
+    const value = varMap.get(variable);
+    if (value !== undefined) return value;
+    if (name.startsWith('env:')) return process.env[name.substr(4)] || '';
+    if (name.startsWith('command:')) {
+      throw new Error(
+        `Cannot resolve variable '${variable}' (command not executed)`
+      );
+    }
+    throw new Error(
+      `Unknown variable '${variable}' in '${configStr}' (supported variables are ${SUPPORTED_VARIABLES})`
+    );
+  });
+}
+
+/**
+ * Get variable to value substitution map for config strings
+ *
+ * `${config:...}` variables are resolved for all settings of the workspace
+ * folder, `${command:...}` variables are taken from the values cached by
+ * resolveCommandVariables().
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function getVariableSubstitutionMap(
+  workspaceFolder: vscode.WorkspaceFolder
+) {
+  // Standard variables
+  const substitutionMap = new Map<string, string>([
+    ['${workspaceFolder}', workspaceFolder.uri.fsPath],
+    ['${workspaceFolderBasename}', workspaceFolder.name],
+    ['${userHome}', os.homedir()],
+    ['${pathSeparator}', path.sep],
+  ]);
+
+  // Workspace folders by name, e.g. in multi-root workspaces
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    substitutionMap.set(
+      `\${workspaceFolder:${folder.name}}`,
+      folder.uri.fsPath
+    );
+  }
+
+  // Settings referenced by our own settings
+  const config = vscode.workspace.getConfiguration(
+    undefined,
+    workspaceFolder.uri
+  );
+  for (const name of findVariables(workspaceFolder, 'config')) {
+    const value = config.get(name);
+    if (value === undefined || typeof value === 'object') continue;
+    substitutionMap.set(`\${config:${name}}`, String(value));
+  }
+
+  // Command results
+  const commandValues = commandVariables.get(workspaceFolder.uri.toString());
+  if (commandValues) {
+    commandValues.forEach((value, name) =>
+      substitutionMap.set(`\${command:${name}}`, value)
+    );
+  }
+
+  return substitutionMap;
+}
+
+/**
+ * Execute commands referenced by `${command:...}` variables in settings
+ *
+ * Results are cached for subsequent calls to getVariableSubstitutionMap().
+ * Commands are executed again at each load; in between, only the commands
+ * that have no cached result yet are executed, e.g. after settings changes.
+ *
+ * @param workspaceFolder Workspace folder
+ * @param refresh Whether to execute the commands with cached results again
+ *
+ * @throws Error if a command fails or doesn't return a string
+ */
+export async function resolveCommandVariables(
+  workspaceFolder: vscode.WorkspaceFolder,
+  refresh = false
+) {
+  const cachedValues =
+    (!refresh && commandVariables.get(workspaceFolder.uri.toString())) ||
+    new Map<string, string>();
+  const commandValues = new Map<string, string>();
+  for (const name of findVariables(workspaceFolder, 'command')) {
+    const cachedValue = cachedValues.get(name);
+    if (cachedValue !== undefined) {
+      commandValues.set(name, cachedValue);
+      continue;
+    }
+
+    let value: unknown;
+    try {
+      value = await vscode.commands.executeCommand(name);
+    } catch (e) {
+      throw new Error(`Cannot resolve variable '\${command:${name}}': ${e}`);
+    }
+    if (typeof value !== 'string') {
+      throw new Error(
+        `Cannot resolve variable '\${command:${name}}': command returned no string`
+      );
+    }
+    commandValues.set(name, value);
+  }
+  commandVariables.set(workspaceFolder.uri.toString(), commandValues);
+}
+
+/**
+ * Find prefixed variable names referenced in settings
+ *
+ * @param workspaceFolder Workspace folder
+ * @param prefix Variable prefix, e.g. `config` for `${config:...}`
+ *
+ * @return Variable names without prefix
+ */
+function findVariables(
+  workspaceFolder: vscode.WorkspaceFolder,
+  prefix: string
+) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const names = new Set<string>();
+  const settings = JSON.stringify(config);
+  let match: RegExpExecArray | null;
+  const pattern = new RegExp(VARIABLE_PATTERN.source, 'g');
+  while ((match = pattern.exec(settings))) {
+    const [, variable] = match;
+    if (variable.startsWith(`${prefix}:`)) {
+      names.add(variable.substr(prefix.length + 1));
+    }
+  }
+  return names;
+}
+
+/**
+ * Check whether auto-reload option is activated
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function isAutoReload(workspaceFolder: vscode.WorkspaceFolder) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  return !!config.get<boolean>('autoReload');
+}
+
+/**
+ * Check whether test runs collect coverage
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function isCoverageEnabled(workspaceFolder: vscode.WorkspaceFolder) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  return !!config.get<boolean>('collectCoverage');
+}
+
+/**
+ * Check whether test runs use memcheck
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function isMemcheckEnabled(workspaceFolder: vscode.WorkspaceFolder) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  return !!config.get<boolean>('memcheck');
+}
+
+/**
+ * Get Valgrind command line for memcheck runs
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function getMemcheckCommand(workspaceFolder: vscode.WorkspaceFolder) {
+  const [memcheckCommand] = getConfigStrings(workspaceFolder, [
+    'memcheckCommand',
+  ]);
+  return memcheckCommand || 'valgrind --leak-check=full';
+}
+
+/**
+ * Get maximum number of concurrent test processes
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function getMaxParallelProcesses(
+  workspaceFolder: vscode.WorkspaceFolder
+) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  return Math.max(1, config.get<number>('maxParallelProcesses') || 1);
+}
+
+/**
+ * Get repeated run options
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function getRepeatOptions(
+  workspaceFolder: vscode.WorkspaceFolder
+): PicotestRepeatOptions {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  return {
+    count: Math.max(1, config.get<number>('repeatCount') || 1),
+    timeBudget: (config.get<number>('repeatTimeBudget') || 0) * 1000,
+  };
+}
+
+/**
+ * Get test case timeouts
+ *
+ * Per-test timeouts are matched against test case names as glob patterns,
+ * the global timeout applies otherwise.
+ *
+ * @param workspaceFolder Workspace folder
+ *
+ * @return Function returning the timeout in ms of a test case (0 for none)
+ */
+export function getTestTimeouts(
+  workspaceFolder: vscode.WorkspaceFolder
+): (testName: string) => number {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const testTimeout = config.get<number>('testTimeout') || 0;
+  const testTimeouts =
+    config.get<{ [pattern: string]: number }>('testTimeouts') || {};
+  return (testName: string) => {
+    for (const pattern of Object.keys(testTimeouts)) {
+      if (minimatch(testName, pattern)) return testTimeouts[pattern];
+    }
+    return testTimeout;
+  };
+}
+
+/**
+ * Get test selection filter
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function getTestFilter(
+  workspaceFolder: vscode.WorkspaceFolder
+): PicotestTestFilter {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const [include, exclude, includeTags, excludeTags] = TEST_FILTER_SETTINGS.map(
+    (name) => config.get<string[]>(name) || []
+  );
+  return { include, exclude, includeTags, excludeTags };
+}
+
+/**
+ * Check whether a configuration change affects the test filter
+ *
+ * @param e Configuration change event
+ * @param workspaceFolder Workspace folder
+ */
+export function affectsTestFilter(
+  e: vscode.ConfigurationChangeEvent,
+  workspaceFolder: vscode.WorkspaceFolder
+) {
+  return TEST_FILTER_SETTINGS.some((name) =>
+    e.affectsConfiguration(
+      `${CONFIGURATION_SCOPE}.${name}`,
+      workspaceFolder.uri
+    )
+  );
+}
+
+/**
+ * Substitute variables in environment values
+ *
+ * @param env Environment variables
+ * @param varMap Variable to value map
+ */
+export function substituteEnvironment(
+  env: { [name: string]: string },
+  varMap: Map<string, string>
+) {
+  const result: { [name: string]: string } = {};
+  for (const name of Object.keys(env)) {
+    result[name] = substituteVariables(String(env[name]), varMap);
+  }
+  return result;
+}
+
+/**
+ * Get additional test environment variables
+ *
+ * Variables from the `testEnvFile` file are overridden by the `testEnv`
+ * setting.
+ *
+ * @param workspaceFolder Workspace folder
+ *
+ * @throws Error if the environment file cannot be read
+ */
+export function getTestEnvironment(workspaceFolder: vscode.WorkspaceFolder) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const varMap = getVariableSubstitutionMap(workspaceFolder);
+  const testEnvFile = configGetStr(config, varMap, 'testEnvFile');
+  const testEnv = config.get<{ [name: string]: string }>('testEnv') || {};
+
+  let fileEnv: { [name: string]: string } = {};
+  if (testEnvFile) {
+    const envPath = path.resolve(workspaceFolder.uri.fsPath, testEnvFile);
+    let content: string;
+    try {
+      content = fs.readFileSync(envPath, 'utf8');
+    } catch (e) {
+      throw new Error(`Cannot read environment file '${envPath}'`);
+    }
+    fileEnv = parseEnvironmentFile(content);
+  }
+  return substituteEnvironment({ ...fileEnv, ...testEnv }, varMap);
+}
+
+/**
+ * Get path mappings from test process to workspace paths
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function getPathMappings(workspaceFolder: vscode.WorkspaceFolder) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const varMap = getVariableSubstitutionMap(workspaceFolder);
+  const pathMappings =
+    config.get<{ [path: string]: string }>('pathMappings') || {};
+  const result: { [path: string]: string } = {};
+  for (const remotePath of Object.keys(pathMappings)) {
+    result[substituteVariables(remotePath, varMap)] = path.resolve(
+      workspaceFolder.uri.fsPath,
+      substituteVariables(pathMappings[remotePath], varMap)
+    );
+  }
+  return result;
+}
+
+/**
+ * Parse environment file in dotenv format
+ *
+ * Each line is a `KEY=VALUE` pair with an optional `export` prefix; values
+ * can be single- or double-quoted, blank lines & `#` comments are ignored.
+ *
+ * @param content File content
+ */
+function parseEnvironmentFile(content: string) {
+  const env: { [name: string]: string } = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) continue;
+    const [, name, rawValue] = match;
+    let value = rawValue;
+    const quoted = /^(['"])(.*)\1$/.exec(rawValue);
+    if (quoted) {
+      value = quoted[2];
+      if (quoted[1] === '"') value = value.replace(/\\n/g, '\n');
+    } else {
+      // Strip trailing comments from unquoted values
+      value = value.replace(/\s+#.*$/, '');
+    }
+    env[name] = value;
+  }
+  return env;
+}
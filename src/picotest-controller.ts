@@ -0,0 +1,624 @@
+/**
+ * @file Native VS Code Testing API frontend
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Log } from 'vscode-test-adapter-util';
+import { PicotestTestInfo } from './interfaces/picotest-test-info';
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import {
+  getPicotestErrorMessage,
+  getPicotestComparison,
+  PicotestFailureEvent,
+} from './picotest-runner';
+import {
+  getMaxParallelProcesses,
+  isCoverageEnabled,
+  isMemcheckEnabled,
+  getRepeatOptions,
+  PicotestRepeatOptions,
+} from './picotest-config';
+import {
+  getTestsForSources,
+  groupTestsByExecutable,
+  getTestId,
+  getTestPath,
+  PicotestTestRef,
+} from './picotest-executables';
+import { PicotestLoader, watchPicotestWorkspace } from './picotest-loader';
+import { debugPicotestTests } from './picotest-debug';
+import { shardTests, runShards } from './picotest-shards';
+import { PicotestRun, PicotestRunResult } from './picotest-run';
+import { PicotestHistory } from './picotest-history';
+import { PicotestTimings, withDuration } from './picotest-timing';
+
+/** Special ID value for the load error item */
+const LOAD_ERROR_ID = '!';
+
+/** Error message for runs without successfully loaded tests */
+const STALE_ERROR_MESSAGE = 'PicoTest tests must load successfully to run';
+
+/**
+ * PicoTest test controller for the native VS Code Testing API
+ *
+ * This is the counterpart of PicotestAdapter for users who don't have the
+ * Test Explorer extension installed.
+ */
+export class PicotestController implements vscode.Disposable {
+  private disposables: { dispose(): void }[] = [];
+
+  /** VS Code test controller */
+  private readonly controller: vscode.TestController;
+
+  /** Discovered Picotest executables & tests */
+  private readonly loader: PicotestLoader;
+
+  /** Test item to executable/test map */
+  private testRefs = new WeakMap<vscode.TestItem, PicotestTestRef>();
+
+  /** Test ID to test item map */
+  private testItems = new Map<string, vscode.TestItem>();
+
+  /** Test run history */
+  private readonly history: PicotestHistory;
+
+  /** Test timings of the current or last run */
+  private timings = new PicotestTimings();
+
+  /** Number of active test runs */
+  private activeRuns = 0;
+
+  /** Request of the last run */
+  private lastRunRequest?: vscode.TestRunRequest;
+
+  /** Test IDs that failed or errored in the last run */
+  private failedTests: string[] = [];
+
+  constructor(
+    public readonly workspaceFolder: vscode.WorkspaceFolder,
+    private readonly log: Log,
+    context: vscode.ExtensionContext
+  ) {
+    this.log.info('Initializing PicoTest controller');
+
+    this.history = new PicotestHistory(context.workspaceState, workspaceFolder);
+    this.loader = new PicotestLoader(workspaceFolder, context.workspaceState);
+
+    const multiRoot = (vscode.workspace.workspaceFolders || []).length > 1;
+    this.controller = vscode.tests.createTestController(
+      `picotest:${workspaceFolder.uri.toString()}`,
+      multiRoot ? `PicoTest (${workspaceFolder.name})` : 'PicoTest'
+    );
+    this.controller.resolveHandler = (item) => (item ? undefined : this.load());
+    this.controller.createRunProfile(
+      'Run',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.run(request, token),
+      true
+    );
+    this.controller.createRunProfile(
+      'Debug',
+      vscode.TestRunProfileKind.Debug,
+      (request) => this.debug(request),
+      true
+    );
+    this.controller.createRunProfile(
+      'Coverage',
+      vscode.TestRunProfileKind.Coverage,
+      (request, token) => this.run(request, token, true),
+      true
+    );
+    this.controller.createRunProfile(
+      'Run Repeatedly',
+      vscode.TestRunProfileKind.Run,
+      (request, token) =>
+        this.run(
+          request,
+          token,
+          undefined,
+          undefined,
+          getRepeatOptions(this.workspaceFolder)
+        )
+    );
+    this.controller.createRunProfile(
+      'Memcheck',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.run(request, token, undefined, true)
+    );
+    this.disposables.push(this.controller);
+
+    this.disposables.push(
+      watchPicotestWorkspace(
+        workspaceFolder,
+        log,
+        () => this.load(),
+        (files) => this.autorunTests(files)
+      )
+    );
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+  }
+
+  /**
+   * Load test items
+   */
+  async load(): Promise<void> {
+    this.log.info('Loading PicoTest tests');
+
+    if (this.loader.loadCache()) {
+      // Show the last known tests while loading the actual ones
+      this.updateTestItems(true);
+    }
+
+    try {
+      // Load test lists of all executables
+      await this.loader.load();
+      this.updateTestItems(false);
+    } catch (e) {
+      // Keep showing the last known tests
+      this.updateTestItems(true);
+      const item = this.controller.createTestItem(LOAD_ERROR_ID, 'PicoTest');
+      item.error = e.toString();
+      this.controller.items.add(item);
+    }
+  }
+
+  /**
+   * Replace test items with those of the current executables
+   *
+   * @param stale Whether the tests may be outdated
+   */
+  private updateTestItems(stale: boolean) {
+    const executables = this.loader.executables;
+
+    // Convert to test items
+    this.testItems.clear();
+    const items =
+      executables.length == 1
+        ? this.createTestItems(executables[0], executables[0].tests)
+        : executables.map((executable) => {
+            const item = this.controller.createTestItem(
+              executable.id,
+              executable.id,
+              executable.command
+                ? vscode.Uri.file(executable.command)
+                : undefined
+            );
+            this.testRefs.set(item, { executable });
+            item.children.replace(
+              this.createTestItems(executable, executable.tests)
+            );
+            return item;
+          });
+    if (stale) {
+      for (const item of items) item.description = 'stale';
+    }
+    this.controller.items.replace(items);
+  }
+
+  /**
+   * Create test items from PicoTest tests and index them
+   *
+   * @param executable Executable owning the tests
+   * @param tests PicoTest tests to convert
+   * @param parentPath Path of the parent suite (undefined for top-level tests)
+   */
+  private createTestItems(
+    executable: PicotestExecutable,
+    tests: PicotestTestInfo[],
+    parentPath?: string
+  ): vscode.TestItem[] {
+    return tests.map((test) => {
+      const testPath = getTestPath(parentPath, test.name);
+      const id = getTestId(executable, testPath);
+      const item = this.controller.createTestItem(
+        id,
+        test.name,
+        vscode.Uri.file(path.resolve(executable.cwd, test.file))
+      );
+      item.range = new vscode.Range(test.line - 1, 0, test.line - 1, 0);
+      this.testRefs.set(item, { executable, name: testPath });
+      this.testItems.set(id, item);
+      if (test.subtests) {
+        item.children.replace(
+          this.createTestItems(executable, test.subtests, testPath)
+        );
+      } else {
+        this.updateDescription(item);
+      }
+      return item;
+    });
+  }
+
+  /**
+   * Get executables/tests to run or debug from test run request
+   *
+   * @param request Test run request
+   */
+  private getRequestedTests(request: vscode.TestRunRequest): PicotestTestRef[] {
+    if (!request.include) {
+      // Run all
+      return this.loader.executables.map((executable) => ({ executable }));
+    }
+
+    // Items are matched by ID as the tests may have been reloaded since
+    const excluded = new Set((request.exclude || []).map((item) => item.id));
+    return request.include
+      .filter((item) => !excluded.has(item.id))
+      .map((item) =>
+        this.testRefs.get(
+          this.testItems.get(item.id) ||
+            this.controller.items.get(item.id) ||
+            item
+        )
+      )
+      .filter((ref): ref is PicotestTestRef => !!ref);
+  }
+
+  /**
+   * Run tests
+   *
+   * @param request Test run request
+   * @param token Cancellation token
+   * @param coverage Whether to collect coverage
+   * @param memcheck Whether to run tests under memcheck
+   * @param repeat Repeat options (undefined for a single run)
+   */
+  private async run(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    coverage = isCoverageEnabled(this.workspaceFolder),
+    memcheck = isMemcheckEnabled(this.workspaceFolder),
+    repeat?: PicotestRepeatOptions
+  ) {
+    const run = this.controller.createTestRun(request);
+    this.activeRuns++;
+    this.lastRunRequest = request;
+    this.failedTests = [];
+
+    let picotestRun: PicotestRun;
+    try {
+      // Settings may have unknown variables
+      picotestRun = new PicotestRun(
+        this.workspaceFolder,
+        this.log,
+        this.history,
+        { coverage, memcheck, repeat }
+      );
+
+      // Run the rebuilt executables, and only those of a successful load
+      if (await this.loader.runPreLaunchTask()) await this.load();
+      if (this.loader.stale) throw new Error(STALE_ERROR_MESSAGE);
+    } catch (e) {
+      // Don't run with invalid settings or stale executables
+      const message = new vscode.TestMessage(e.toString());
+      for (const ref of this.getRequestedTests(request)) {
+        for (const item of this.getTestItems(ref)) run.errored(item, message);
+      }
+      run.end();
+      this.activeRuns--;
+      return;
+    }
+
+    const refs = this.getRequestedTests(request);
+    this.log.info(
+      `Running PicoTest tests ${JSON.stringify(
+        refs.map(({ executable, name }) => name || executable.command)
+      )}`
+    );
+
+    this.timings = picotestRun.timings;
+    const cancellation = token.onCancellationRequested(() =>
+      picotestRun.cancel()
+    );
+    try {
+      await picotestRun.resetCoverage(this.loader.executables);
+
+      const maxParallelProcesses = getMaxParallelProcesses(
+        this.workspaceFolder
+      );
+      const { shards } = shardTests(
+        groupTestsByExecutable(refs),
+        maxParallelProcesses
+      );
+      await runShards(
+        shards,
+        maxParallelProcesses,
+        async ({ executable, tests }) => {
+          if (picotestRun.isCancelled()) return;
+
+          try {
+            await this.runExecutableTests(run, picotestRun, executable, tests);
+          } catch (e) {
+            const message = new vscode.TestMessage(e.toString());
+            const shardRefs: PicotestTestRef[] = tests.length
+              ? tests.map((name) => ({ executable, name }))
+              : [{ executable }];
+            for (const ref of shardRefs) {
+              for (const item of this.getTestItems(ref)) {
+                run.errored(item, message);
+              }
+            }
+          }
+        }
+      );
+
+      run.appendOutput(
+        (await picotestRun.finish(this.loader.executables)).replace(
+          /\n/g,
+          '\r\n'
+        )
+      );
+    } finally {
+      cancellation.dispose();
+      run.end();
+      this.activeRuns--;
+    }
+  }
+
+  /**
+   * Run tests of a single executable
+   *
+   * @param run Test run
+   * @param picotestRun PicoTest test run
+   * @param executable Executable to run
+   * @param tests Test names (empty for all)
+   */
+  private async runExecutableTests(
+    run: vscode.TestRun,
+    picotestRun: PicotestRun,
+    executable: PicotestExecutable,
+    tests: string[]
+  ) {
+    await picotestRun.runExecutable(executable, tests, {
+      started: (id) => {
+        const item = this.testItems.get(id);
+        if (item) run.started(item);
+      },
+      completed: (result) => {
+        const item = this.testItems.get(result.id);
+        if (!item) return;
+        this.completeTestItem(run, item, executable, result);
+      },
+      output: (text) => {
+        // Output goes to the run log and to the current test case if any
+        run.appendOutput(text.replace(/\r?\n/g, '\r\n'));
+      },
+    });
+  }
+
+  /**
+   * Report test item result
+   *
+   * @param run Test run
+   * @param item Test item
+   * @param executable Executable owning the test
+   * @param result Test result
+   */
+  private completeTestItem(
+    run: vscode.TestRun,
+    item: vscode.TestItem,
+    executable: PicotestExecutable,
+    {
+      id,
+      suite,
+      outcome,
+      message,
+      failures,
+      output,
+      duration,
+    }: PicotestRunResult
+  ) {
+    if (!suite && (outcome === 'failed' || outcome === 'errored')) {
+      this.failedTests.push(id);
+    }
+    const messages = [
+      ...(message ? [new vscode.TestMessage(message)] : []),
+      ...failures.map((failure) => toTestMessage(failure, executable.cwd)),
+      ...toOutputMessages(output),
+    ];
+    switch (outcome) {
+      case 'passed':
+        run.passed(item, duration);
+        break;
+      case 'failed':
+        run.failed(item, messages, duration);
+        break;
+      case 'errored':
+        run.errored(item, messages, duration);
+        break;
+      case 'skipped':
+        run.skipped(item);
+        break;
+    }
+    this.updateDescription(item);
+  }
+
+  /**
+   * Run tests repeatedly until the first failure
+   *
+   * @param tests Test IDs
+   */
+  async runRepeatedly(tests: string[]): Promise<void> {
+    const include = tests
+      .map((id) => this.testItems.get(id))
+      .filter((item): item is vscode.TestItem => !!item);
+    if (!include.length) return;
+    await this.runRequest(
+      new vscode.TestRunRequest(include),
+      getRepeatOptions(this.workspaceFolder)
+    );
+  }
+
+  /**
+   * Rerun tests that failed or errored in the last run
+   */
+  async rerunFailed(): Promise<void> {
+    const include = this.failedTests
+      .map((id) => this.testItems.get(id))
+      .filter((item): item is vscode.TestItem => !!item);
+    if (!include.length) return;
+    await this.runRequest(new vscode.TestRunRequest(include));
+  }
+
+  /**
+   * Rerun the tests of the last run
+   */
+  async rerunLast(): Promise<void> {
+    if (!this.lastRunRequest) return;
+    await this.runRequest(this.lastRunRequest);
+  }
+
+  /**
+   * Run tests outside of the run profiles
+   *
+   * @param request Test run request
+   * @param repeat Repeat options (undefined for a single run)
+   */
+  private async runRequest(
+    request: vscode.TestRunRequest,
+    repeat?: PicotestRepeatOptions
+  ) {
+    const cancellation = new vscode.CancellationTokenSource();
+    try {
+      await this.run(request, cancellation.token, undefined, undefined, repeat);
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * Get IDs of all tests
+   */
+  getTestIds() {
+    return [...this.testItems.keys()];
+  }
+
+  /**
+   * Show last run duration & flag flaky tests in test item description
+   *
+   * @param item Test item
+   */
+  private updateDescription(item: vscode.TestItem) {
+    item.description = withDuration(
+      this.history.getFlakyInfo(item.id),
+      this.timings.get(item.id)
+    ).description;
+  }
+
+  /**
+   * Debug tests
+   *
+   * @param request Test run request
+   */
+  private async debug(request: vscode.TestRunRequest) {
+    try {
+      if (await this.loader.runPreLaunchTask()) await this.load();
+    } catch (e) {
+      this.log.error('Error running PicoTest pre-launch task', e.toString());
+      vscode.window.showErrorMessage(e.message);
+      return;
+    }
+    if (this.loader.stale) {
+      vscode.window.showErrorMessage(STALE_ERROR_MESSAGE);
+      return;
+    }
+
+    const refs = this.getRequestedTests(request);
+    this.log.info(
+      `Debugging PicoTest tests ${JSON.stringify(
+        refs.map(({ executable, name }) => name || executable.command)
+      )}`
+    );
+    try {
+      await debugPicotestTests(this.workspaceFolder, refs);
+    } catch (e) {
+      this.log.error('Error debugging PicoTest tests', e.toString());
+      vscode.window.showErrorMessage(e.message);
+    }
+  }
+
+  /**
+   * Get test items from executable/test reference
+   *
+   * @param ref Executable/test reference
+   */
+  private getTestItems({ executable, name }: PicotestTestRef) {
+    const items: vscode.TestItem[] = [];
+    if (name !== undefined) {
+      const item = this.testItems.get(getTestId(executable, name));
+      if (item) items.push(item);
+    } else if (executable.id) {
+      const item = this.controller.items.get(executable.id);
+      if (item) items.push(item);
+    } else {
+      // Single executable, its tests are at the top level
+      this.controller.items.forEach((item) => items.push(item));
+    }
+    return items;
+  }
+
+  /**
+   * Run tests affected by source changes
+   *
+   * Changes are ignored while tests are running, so that runs don't
+   * overlap.
+   *
+   * @param files Paths of changed files
+   */
+  private autorunTests(files: string[]) {
+    if (this.activeRuns) return;
+
+    const refs = getTestsForSources(this.loader.executables, files);
+    if (refs && !refs.length) return;
+
+    // Run all tests when changed files define no test
+    let include: vscode.TestItem[] | undefined;
+    if (refs) {
+      include = [];
+      for (const ref of refs) include.push(...this.getTestItems(ref));
+    }
+    this.runRequest(new vscode.TestRunRequest(include));
+  }
+}
+
+/**
+ * Convert Picotest failure event to test message
+ *
+ * Comparison failures get a diff message to open in a diff editor.
+ *
+ * @param event PicoTest failure event
+ * @param cwd Directory the test was run within
+ */
+function toTestMessage(event: PicotestFailureEvent, cwd: string) {
+  const comparison = getPicotestComparison(event);
+  const message = comparison
+    ? vscode.TestMessage.diff(
+        getPicotestErrorMessage(event),
+        comparison.expected,
+        comparison.actual
+      )
+    : new vscode.TestMessage(getPicotestErrorMessage(event));
+  message.location = new vscode.Location(
+    vscode.Uri.file(path.resolve(cwd, event.file)),
+    new vscode.Position(event.line - 1, 0)
+  );
+  return message;
+}
+
+/**
+ * Convert captured test case output to test messages
+ *
+ * @param output Captured output
+ */
+function toOutputMessages(output?: string[]) {
+  return output && output.length
+    ? [new vscode.TestMessage(output.join(''))]
+    : [];
+}
@@ -0,0 +1,281 @@
+/**
+ * @file Code coverage collection & display
+ */
+
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import { PicotestTestInfo } from './interfaces/picotest-test-info';
+import { getConfigStrings } from './picotest-config';
+
+const { split } = require('split-cmd');
+const glob = require('glob');
+
+/** Line coverage of a source file */
+export interface PicotestFileCoverage {
+  /** Absolute file path */
+  file: string;
+
+  /** Line number (1-based) to hit count map */
+  lines: Map<number, number>;
+}
+
+/** Covered line decoration */
+let coveredDecoration: vscode.TextEditorDecorationType | undefined;
+
+/** Uncovered line decoration */
+let uncoveredDecoration: vscode.TextEditorDecorationType | undefined;
+
+/** Currently displayed coverage, by file path */
+const displayedCoverage = new Map<string, PicotestFileCoverage>();
+
+/**
+ * Coverage-related initialization
+ *
+ * @param context Extension context
+ */
+export function initPicotestCoverage(context: vscode.ExtensionContext) {
+  coveredDecoration = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    backgroundColor: 'rgba(0, 192, 0, 0.1)',
+    overviewRulerColor: 'rgba(0, 192, 0, 0.5)',
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+  });
+  uncoveredDecoration = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    backgroundColor: 'rgba(255, 0, 0, 0.1)',
+    overviewRulerColor: 'rgba(255, 0, 0, 0.5)',
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+  });
+  context.subscriptions.push(
+    coveredDecoration,
+    uncoveredDecoration,
+    vscode.window.onDidChangeVisibleTextEditors(decorateEditors),
+    vscode.commands.registerCommand('picotestExplorer.clearCoverage', () =>
+      showPicotestCoverage([])
+    )
+  );
+}
+
+/**
+ * Reset coverage counters before a coverage run
+ *
+ * Without a reset command, `.gcda` files are deleted from the directories
+ * the executables run within.
+ *
+ * @param workspaceFolder Workspace folder
+ * @param executables Executables to run
+ */
+export async function resetPicotestCoverage(
+  workspaceFolder: vscode.WorkspaceFolder,
+  executables: PicotestExecutable[]
+) {
+  const [coverageResetCommand] = getConfigStrings(workspaceFolder, [
+    'coverageResetCommand',
+  ]);
+  if (coverageResetCommand) {
+    await runCoverageCommand(workspaceFolder, coverageResetCommand);
+    return;
+  }
+
+  const cwds = new Set(executables.map((executable) => executable.cwd));
+  for (const cwd of cwds) {
+    for (const file of await findFiles('**/*.gcda', cwd)) {
+      fs.unlinkSync(file);
+    }
+  }
+}
+
+/**
+ * Collect coverage data after a coverage run
+ *
+ * @param workspaceFolder Workspace folder
+ *
+ * @return Coverage of all source files
+ *
+ * @throws Error if no coverage command is set or if it fails
+ */
+export async function collectPicotestCoverage(
+  workspaceFolder: vscode.WorkspaceFolder
+): Promise<PicotestFileCoverage[]> {
+  const [coverageCommand] = getConfigStrings(workspaceFolder, [
+    'coverageCommand',
+  ]);
+  if (!coverageCommand) {
+    throw new Error('No coverage command set in picotestExplorer settings');
+  }
+  const lcov = await runCoverageCommand(workspaceFolder, coverageCommand);
+  return parseLcov(lcov, workspaceFolder.uri.fsPath);
+}
+
+/**
+ * Show coverage as editor decorations
+ *
+ * @param coverage Coverage of source files (empty to clear)
+ */
+export function showPicotestCoverage(coverage: PicotestFileCoverage[]) {
+  displayedCoverage.clear();
+  for (const fileCoverage of coverage) {
+    displayedCoverage.set(fileCoverage.file, fileCoverage);
+  }
+  decorateEditors(vscode.window.visibleTextEditors);
+}
+
+/**
+ * Summarize coverage of the source files defining tests
+ *
+ * @param executables Executables owning the tests
+ * @param coverage Coverage of source files
+ *
+ * @return Summary lines with per-file percentages
+ */
+export function formatPicotestCoverage(
+  executables: PicotestExecutable[],
+  coverage: PicotestFileCoverage[]
+) {
+  const files = new Set<string>();
+  const addFiles = (cwd: string, tests: PicotestTestInfo[]) => {
+    for (const test of tests) {
+      files.add(path.resolve(cwd, test.file));
+      if (test.subtests) addFiles(cwd, test.subtests);
+    }
+  };
+  for (const executable of executables) {
+    addFiles(executable.cwd, executable.tests);
+  }
+
+  const coverageMap = new Map(
+    coverage.map((fileCoverage): [string, PicotestFileCoverage] => [
+      fileCoverage.file,
+      fileCoverage,
+    ])
+  );
+  const lines = ['Coverage:'];
+  for (const file of [...files].sort()) {
+    const fileCoverage = coverageMap.get(file);
+    if (!fileCoverage) {
+      lines.push(`  ${file}: no data`);
+      continue;
+    }
+    let total = 0;
+    let covered = 0;
+    fileCoverage.lines.forEach((hits) => {
+      total++;
+      if (hits > 0) covered++;
+    });
+    const percent = total ? ((covered / total) * 100).toFixed(1) : '-';
+    lines.push(`  ${file}: ${percent}% (${covered}/${total} lines)`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Decorate editors with the displayed coverage
+ *
+ * @param editors Editors to decorate
+ */
+function decorateEditors(editors: readonly vscode.TextEditor[]) {
+  if (!coveredDecoration || !uncoveredDecoration) return;
+  for (const editor of editors) {
+    const fileCoverage = displayedCoverage.get(
+      path.normalize(editor.document.uri.fsPath)
+    );
+    const covered: vscode.Range[] = [];
+    const uncovered: vscode.Range[] = [];
+    if (fileCoverage) {
+      fileCoverage.lines.forEach((hits, line) => {
+        const range = new vscode.Range(line - 1, 0, line - 1, 0);
+        (hits > 0 ? covered : uncovered).push(range);
+      });
+    }
+    editor.setDecorations(coveredDecoration, covered);
+    editor.setDecorations(uncoveredDecoration, uncovered);
+  }
+}
+
+/**
+ * Parse LCOV tracefile
+ *
+ * @param lcov LCOV data
+ * @param basePath Directory to resolve relative source paths from
+ */
+function parseLcov(lcov: string, basePath: string): PicotestFileCoverage[] {
+  const coverage = new Map<string, PicotestFileCoverage>();
+  let current: PicotestFileCoverage | undefined;
+  for (const line of lcov.split(/\r?\n/)) {
+    if (line.startsWith('SF:')) {
+      const file = path.resolve(basePath, line.substr(3));
+      current = coverage.get(file) || { file, lines: new Map() };
+      coverage.set(file, current);
+    } else if (line.startsWith('DA:') && current) {
+      const [lineNumber, hits] = line.substr(3).split(',').map(Number);
+      current.lines.set(
+        lineNumber,
+        (current.lines.get(lineNumber) || 0) + hits
+      );
+    } else if (line === 'end_of_record') {
+      current = undefined;
+    }
+  }
+  return [...coverage.values()];
+}
+
+/**
+ * Run coverage command from the workspace folder
+ *
+ * @param workspaceFolder Workspace folder
+ * @param command Command line
+ *
+ * @return Command output
+ */
+function runCoverageCommand(
+  workspaceFolder: vscode.WorkspaceFolder,
+  command: string
+): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const [program, ...args] = split(command);
+    const coverageProcess = child_process.spawn(program, args, {
+      cwd: workspaceFolder.uri.fsPath,
+    });
+    let stdout = '';
+    let stderr = '';
+    coverageProcess.stdout.on('data', (data) => (stdout += data));
+    coverageProcess.stderr.on('data', (data) => (stderr += data));
+    coverageProcess.on('error', (error) =>
+      reject(new Error(`Cannot run coverage command '${program}': ${error}`))
+    );
+    coverageProcess.on('close', (code) => {
+      if (code) {
+        reject(
+          new Error(
+            `Coverage command '${program}' failed with code ${code}\n${stderr}`
+          )
+        );
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * Find files matching a glob pattern
+ *
+ * @param pattern Glob pattern
+ * @param cwd Directory to search
+ */
+function findFiles(pattern: string, cwd: string): Promise<string[]> {
+  return new Promise<string[]>((resolve, reject) => {
+    glob(
+      pattern,
+      { cwd, absolute: true, nodir: true },
+      (error: Error | null, files: string[]) => {
+        if (error) reject(error);
+        else resolve(files);
+      }
+    );
+  });
+}
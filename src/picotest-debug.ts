@@ -0,0 +1,270 @@
+/**
+ * @file PicoTest test debugging
+ */
+
+import * as vscode from 'vscode';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import {
+  getConfigStrings,
+  getWorkspaceConfiguration,
+  resolveCommandVariables,
+} from './picotest-config';
+import {
+  PicotestTestRef,
+  groupTestsByExecutable,
+  getTestName,
+} from './picotest-executables';
+
+const { split } = require('split-cmd');
+
+/** Launch parameters of a debugged test process */
+interface PicotestDebugLaunch {
+  /** Debug session name */
+  name: string;
+
+  /** Test command/path */
+  program: string;
+
+  /** Command-line arguments */
+  args: string[];
+
+  /** Directory to run the test within */
+  cwd: string;
+
+  /** Additional environment variables */
+  env: { [name: string]: string };
+}
+
+/** Supported debugger extension */
+interface PicotestDebugger {
+  /** Extension ID */
+  extension: string;
+
+  /** Debug types provided by the extension */
+  types: string[];
+
+  /**
+   * Get debug configuration for a test process
+   *
+   * @param launch Launch parameters
+   * @param type Debug type (defaults to the platform's preferred type)
+   */
+  getConfiguration(
+    launch: PicotestDebugLaunch,
+    type?: string
+  ): vscode.DebugConfiguration;
+}
+
+/** Supported debuggers in auto-detection order */
+const DEBUGGERS: { [name: string]: PicotestDebugger } = {
+  cpptools: {
+    extension: 'ms-vscode.cpptools',
+    types: ['cppdbg', 'cppvsdbg'],
+    getConfiguration: ({ name, program, args, cwd, env }, type) => ({
+      name,
+      type: type || (process.platform === 'win32' ? 'cppvsdbg' : 'cppdbg'),
+      request: 'launch',
+      ...(process.platform === 'darwin'
+        ? { MIMode: 'lldb' }
+        : process.platform === 'linux'
+        ? { MIMode: 'gdb' }
+        : {}),
+      program,
+      args,
+      cwd,
+      // cppdbg & cppvsdbg expect a list of name/value pairs
+      environment: Object.keys(env).map((name) => ({
+        name,
+        value: env[name],
+      })),
+    }),
+  },
+  codelldb: {
+    extension: 'vadimcn.vscode-lldb',
+    types: ['lldb'],
+    getConfiguration: ({ name, program, args, cwd, env }) => ({
+      name,
+      type: 'lldb',
+      request: 'launch',
+      program,
+      args,
+      cwd,
+      env,
+    }),
+  },
+  'native-debug': {
+    extension: 'webfreak.debug',
+    types: ['gdb'],
+    getConfiguration: ({ name, program, args, cwd, env }) => ({
+      name,
+      type: 'gdb',
+      request: 'launch',
+      target: program,
+      // Native Debug passes arguments as a single string
+      arguments: args.map(quoteArg).join(' '),
+      cwd,
+      env,
+    }),
+  },
+  'cortex-debug': {
+    extension: 'marus25.cortex-debug',
+    types: ['cortex-debug'],
+    // Embedded targets get neither arguments nor environment, the GDB
+    // server settings come from the debugConfig launch configuration
+    getConfiguration: ({ name, program, cwd }) => ({
+      name,
+      type: 'cortex-debug',
+      request: 'launch',
+      executable: program,
+      cwd,
+    }),
+  },
+};
+
+/** Currently debugged test launch parameters */
+let debuggedTest: PicotestDebugLaunch | undefined;
+
+/**
+ * Debug-related initialization
+ *
+ * @param context Extension context
+ */
+export function initPicotestDebug(context: vscode.ExtensionContext) {
+  // Register DebugConfigurationProviders to combine global and
+  // test-specific debug configurations (see debugPicotestTests)
+  for (const name of Object.keys(DEBUGGERS)) {
+    const picotestDebugger = DEBUGGERS[name];
+    for (const type of picotestDebugger.types) {
+      context.subscriptions.push(
+        vscode.debug.registerDebugConfigurationProvider(type, {
+          resolveDebugConfiguration: (
+            folder: vscode.WorkspaceFolder | undefined,
+            config: vscode.DebugConfiguration,
+            token?: vscode.CancellationToken
+          ): vscode.ProviderResult<vscode.DebugConfiguration> => {
+            if (!debuggedTest) return config;
+            const {
+              type,
+              request,
+              ...testConfig
+            } = picotestDebugger.getConfiguration(debuggedTest, config.type);
+            return {
+              ...config,
+              ...testConfig,
+            };
+          },
+        })
+      );
+    }
+  }
+}
+
+/**
+ * Debug tests
+ *
+ * Tests from the same executable are debugged in a single session.
+ *
+ * @param workspaceFolder Workspace folder
+ * @param refs Executables/tests to debug
+ */
+export async function debugPicotestTests(
+  workspaceFolder: vscode.WorkspaceFolder,
+  refs: PicotestTestRef[]
+) {
+  // Get & substitute config settings
+  await resolveCommandVariables(workspaceFolder);
+  const [debugConfig] = getConfigStrings(workspaceFolder, ['debugConfig']);
+  const picotestDebugger = debugConfig
+    ? undefined
+    : getDebugger(workspaceFolder);
+
+  for (const [executable, tests] of groupTestsByExecutable(refs)) {
+    if (executable.replay) {
+      throw new Error(`Cannot debug replayed command '${executable.command}'`);
+    }
+    const launch = getPicotestDebugLaunch(executable, tests);
+    try {
+      // Remember test-specific parameters for the DebugConfigurationProvider
+      // registered in initPicotestDebug()
+      debuggedTest = launch;
+
+      // Start the debugging session. The actual debug config will combine
+      // the global and test-specific values
+      const started = await vscode.debug.startDebugging(
+        workspaceFolder,
+        picotestDebugger
+          ? picotestDebugger.getConfiguration(launch)
+          : debugConfig
+      );
+      if (!started) {
+        throw new Error(`Cannot start debug session '${launch.name}'`);
+      }
+    } finally {
+      debuggedTest = undefined;
+    }
+  }
+}
+
+/**
+ * Get debugger from settings, or the first installed one
+ *
+ * @param workspaceFolder Workspace folder
+ *
+ * @throws Error if no supported debugger is installed
+ */
+function getDebugger(workspaceFolder: vscode.WorkspaceFolder) {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const name = config.get<string>('debugger') || 'auto';
+  if (name !== 'auto') {
+    const picotestDebugger = DEBUGGERS[name];
+    if (!picotestDebugger) throw new Error(`Unknown debugger '${name}'`);
+    if (!vscode.extensions.getExtension(picotestDebugger.extension)) {
+      throw new Error(
+        `Debugger extension '${picotestDebugger.extension}' is not installed`
+      );
+    }
+    return picotestDebugger;
+  }
+
+  for (const name of Object.keys(DEBUGGERS)) {
+    const picotestDebugger = DEBUGGERS[name];
+    if (vscode.extensions.getExtension(picotestDebugger.extension)) {
+      return picotestDebugger;
+    }
+  }
+  throw new Error(
+    `No supported debugger extension is installed (${Object.keys(DEBUGGERS)
+      .map((name) => DEBUGGERS[name].extension)
+      .join(', ')})`
+  );
+}
+
+/**
+ * Get launch parameters for PicoTest tests
+ *
+ * @param executable Executable to debug
+ * @param tests Test paths (empty for all)
+ */
+function getPicotestDebugLaunch(
+  executable: PicotestExecutable,
+  tests: string[]
+): PicotestDebugLaunch {
+  const names = tests.map(getTestName);
+  return {
+    name: names.length ? `PicoTest ${names.join(' ')}` : 'PicoTest',
+    program: executable.command,
+    args: [...split(executable.runArgs), ...names],
+    cwd: executable.cwd,
+    env: executable.env,
+  };
+}
+
+/**
+ * Quote command-line argument if needed
+ *
+ * @param arg Argument
+ */
+function quoteArg(arg: string) {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `"${arg.replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,129 @@
+/**
+ * @file Problems panel diagnostics for test failures
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import {
+  getPicotestErrorMessage,
+  PicotestFailureEvent,
+} from './picotest-runner';
+import { findPicotestTest, getTestId } from './picotest-executables';
+
+/** Diagnostic of a test failure */
+interface PicotestDiagnostic {
+  /** Source file URI */
+  uri: vscode.Uri;
+
+  /** Diagnostic */
+  diagnostic: vscode.Diagnostic;
+}
+
+/** Diagnostic collection */
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+/** Failure diagnostics per workspace folder URI & test ID */
+const testDiagnostics = new Map<string, Map<string, PicotestDiagnostic[]>>();
+
+/**
+ * Diagnostics-related initialization
+ *
+ * @param context Extension context
+ */
+export function initPicotestDiagnostics(context: vscode.ExtensionContext) {
+  diagnosticCollection = vscode.languages.createDiagnosticCollection(
+    'picotest'
+  );
+  context.subscriptions.push(diagnosticCollection);
+}
+
+/**
+ * Replace the failure diagnostics of a test
+ *
+ * @param workspaceFolder Workspace folder
+ * @param executable Executable owning the test
+ * @param testName Test path
+ * @param failures Test failures (empty to clear)
+ */
+export function setPicotestDiagnostics(
+  workspaceFolder: vscode.WorkspaceFolder,
+  executable: PicotestExecutable,
+  testName: string,
+  failures: PicotestFailureEvent[]
+) {
+  const key = workspaceFolder.uri.toString();
+  const folderDiagnostics = testDiagnostics.get(key) || new Map();
+  testDiagnostics.set(key, folderDiagnostics);
+
+  const id = getTestId(executable, testName);
+  if (!failures.length) {
+    if (!folderDiagnostics.delete(id)) return;
+  } else {
+    const test = findPicotestTest(executable.tests, testName);
+    const testLocation =
+      test &&
+      new vscode.Location(
+        vscode.Uri.file(path.resolve(executable.cwd, test.file)),
+        new vscode.Position(test.line - 1, 0)
+      );
+    folderDiagnostics.set(
+      id,
+      failures.map((failure) => {
+        const line = Math.max(failure.line - 1, 0);
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+          getPicotestErrorMessage(failure),
+          vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = 'PicoTest';
+        if (testLocation) {
+          diagnostic.relatedInformation = [
+            new vscode.DiagnosticRelatedInformation(
+              testLocation,
+              `Test ${testName}`
+            ),
+          ];
+        }
+        return {
+          uri: vscode.Uri.file(path.resolve(executable.cwd, failure.file)),
+          diagnostic,
+        };
+      })
+    );
+  }
+  publishDiagnostics();
+}
+
+/**
+ * Clear all failure diagnostics of a workspace folder
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function clearPicotestDiagnostics(
+  workspaceFolder: vscode.WorkspaceFolder
+) {
+  if (testDiagnostics.delete(workspaceFolder.uri.toString())) {
+    publishDiagnostics();
+  }
+}
+
+/**
+ * Publish failure diagnostics of all workspace folders
+ */
+function publishDiagnostics() {
+  if (!diagnosticCollection) return;
+  const diagnostics = new Map<string, [vscode.Uri, vscode.Diagnostic[]]>();
+  testDiagnostics.forEach((folderDiagnostics) =>
+    folderDiagnostics.forEach((entries) => {
+      for (const { uri, diagnostic } of entries) {
+        const entry = diagnostics.get(uri.toString()) || [uri, []];
+        entry[1].push(diagnostic);
+        diagnostics.set(uri.toString(), entry);
+      }
+    })
+  );
+  diagnosticCollection.clear();
+  diagnosticCollection.set([...diagnostics.values()]);
+}
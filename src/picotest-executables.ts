@@ -0,0 +1,833 @@
+/**
+ * @file PicoTest executables & test IDs
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { PicotestTestInfo } from './interfaces/picotest-test-info';
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import {
+  getWorkspaceConfiguration,
+  getConfigStrings,
+  getVariableSubstitutionMap,
+  getTestEnvironment,
+  getPathMappings,
+  getTestFilter,
+  resolveCommandVariables,
+  PicotestTestFilter,
+  configGetStr,
+  substituteVariables,
+  substituteEnvironment,
+} from './picotest-config';
+import {
+  findPicotestExecutables,
+  loadPicotestTests,
+  PicotestRecording,
+} from './picotest-runner';
+import { mapPicotestPath } from './picotest-paths';
+
+const minimatch = require('minimatch');
+
+/** Separator between executable and test names in test IDs */
+const EXECUTABLE_SEPARATOR = '::';
+
+/** Separator between suite & test names in test paths */
+const TEST_PATH_SEPARATOR = '/';
+
+/** Workspace state key prefix for cached executables */
+const CACHE_KEY = 'picotestExplorer.executables';
+
+/** Test tag pattern in test names, e.g. `[slow]` */
+const TAG_PATTERN = /\[([^\[\]]+)\]/g;
+
+/** Recording file suffixes of load & run output */
+const RECORDING_SUFFIXES = { load: '.load.log', run: '.run.log' };
+
+/** Delay in ms to collect source changes before notifying them */
+const SOURCE_CHANGE_DELAY = 500;
+
+/** Executable test list cached for display */
+interface PicotestCachedExecutable {
+  /** Test Explorer suite ID */
+  id: string;
+
+  /** Discovered tests */
+  tests: PicotestTestInfo[];
+}
+
+/** Test command setting entry */
+export interface PicotestCommandConfig {
+  command: string;
+  cwd?: string;
+  loadArgs?: string;
+  runArgs?: string;
+  env?: { [name: string]: string };
+  launcher?: string;
+  replay?: boolean;
+}
+
+/** Reference to a PicoTest executable or test */
+export interface PicotestTestRef {
+  /** Executable owning the test */
+  executable: PicotestExecutable;
+
+  /** Test path (undefined for the executable itself), see getTestPath() */
+  name?: string;
+}
+
+/**
+ * Get & substitute test command settings
+ *
+ * The `testCommand` setting is either a single command or a list of
+ * commands; list entries can override the global cwd, args & launcher
+ * settings, and replay recorded output instead of running the command.
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export function getCommandConfigs(
+  workspaceFolder: vscode.WorkspaceFolder
+): Required<PicotestCommandConfig>[] {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const varMap = getVariableSubstitutionMap(workspaceFolder);
+  const [testCwd, loadArgs, runArgs, launcher] = [
+    'testCwd',
+    'loadArgs',
+    'runArgs',
+    'launcher',
+  ].map((name) => configGetStr(config, varMap, name));
+
+  const testCommand =
+    config.get<string | (string | PicotestCommandConfig)[]>('testCommand') ||
+    '';
+  const entries = typeof testCommand === 'string' ? [testCommand] : testCommand;
+  return entries.map((entry) => {
+    const commandConfig: PicotestCommandConfig =
+      typeof entry === 'string' ? { command: entry } : entry;
+    const substitute = (str: string | undefined, defaultStr: string) =>
+      str === undefined ? defaultStr : substituteVariables(str, varMap);
+    return {
+      command: substitute(commandConfig.command, ''),
+      cwd: path.resolve(
+        workspaceFolder.uri.fsPath,
+        substitute(commandConfig.cwd, testCwd)
+      ),
+      loadArgs: substitute(commandConfig.loadArgs, loadArgs),
+      runArgs: substitute(commandConfig.runArgs, runArgs),
+      env: substituteEnvironment(commandConfig.env || {}, varMap),
+      launcher: substitute(commandConfig.launcher, launcher),
+      replay: !!commandConfig.replay,
+    };
+  });
+}
+
+/**
+ * Get PicoTest executables from settings
+ *
+ * Glob patterns are expanded to all matching executables, or to all
+ * matching recordings for replayed commands.
+ *
+ * @param workspaceFolder Workspace folder
+ */
+export async function getExecutables(
+  workspaceFolder: vscode.WorkspaceFolder
+): Promise<PicotestExecutable[]> {
+  const workspacePath = workspaceFolder.uri.fsPath;
+  await resolveCommandVariables(workspaceFolder);
+  const env = getTestEnvironment(workspaceFolder);
+  const pathMappings = getPathMappings(workspaceFolder);
+  const [recordDirectory] = getConfigStrings(workspaceFolder, [
+    'recordDirectory',
+  ]);
+  const executables: PicotestExecutable[] = [];
+  for (const commandConfig of getCommandConfigs(workspaceFolder)) {
+    const commands = commandConfig.replay
+      ? await findRecordings(commandConfig.command, commandConfig.cwd)
+      : await findPicotestExecutables(commandConfig.command, commandConfig.cwd);
+    for (const command of commands) {
+      executables.push({
+        ...commandConfig,
+        id: '',
+        command,
+        env: { ...env, ...commandConfig.env },
+        record:
+          recordDirectory && !commandConfig.replay
+            ? getRecordPath(
+                path.resolve(workspacePath, recordDirectory),
+                workspacePath,
+                path.resolve(workspacePath, commandConfig.cwd, command)
+              )
+            : '',
+        pathMappings,
+        tests: [],
+      });
+    }
+  }
+
+  // Executables get their own suite only when there are several of them
+  if (executables.length > 1) {
+    for (const executable of executables) {
+      const relativePath = path.relative(workspacePath, executable.command);
+      executable.id =
+        path.isAbsolute(executable.command) && !relativePath.startsWith('..')
+          ? relativePath
+          : executable.command;
+    }
+  }
+  return executables;
+}
+
+/**
+ * Get recording path prefix of a test command
+ *
+ * Recordings mirror the command paths relative to the workspace folder, or
+ * their absolute paths outside it, so that commands with the same name don't
+ * collide.
+ *
+ * @param recordDirectory Absolute recording directory
+ * @param workspacePath Workspace folder path
+ * @param command Absolute command path
+ */
+function getRecordPath(
+  recordDirectory: string,
+  workspacePath: string,
+  command: string
+) {
+  let relativePath = path.relative(workspacePath, command);
+  if (path.isAbsolute(relativePath) || relativePath.startsWith('..')) {
+    relativePath = path.relative(path.parse(command).root, command);
+  }
+  return path.join(recordDirectory, relativePath);
+}
+
+/**
+ * Find recordings matching a replayed test command
+ *
+ * @param command Recording path prefix or glob pattern
+ * @param cwd Directory to resolve relative paths from
+ *
+ * @return Recording path prefixes
+ */
+async function findRecordings(command: string, cwd: string) {
+  const suffix = RECORDING_SUFFIXES.load;
+  const files = await findPicotestExecutables(command + suffix, cwd);
+  return files.map((file) =>
+    path.resolve(cwd, file.substr(0, file.length - suffix.length))
+  );
+}
+
+/**
+ * Get recording files of an executable
+ *
+ * @param executable Executable
+ * @param phase Load or run phase
+ */
+export function getPicotestRecording(
+  executable: PicotestExecutable,
+  phase: keyof typeof RECORDING_SUFFIXES
+): PicotestRecording {
+  const suffix = RECORDING_SUFFIXES[phase];
+  if (executable.replay) return { replay: executable.command + suffix };
+  if (executable.record) return { record: executable.record + suffix };
+  return {};
+}
+
+/**
+ * Load PicoTest executables & their test lists
+ *
+ * @param workspaceFolder Workspace folder
+ * @param record Whether to record the load output (disable for checks)
+ */
+export async function loadExecutables(
+  workspaceFolder: vscode.WorkspaceFolder,
+  record = true
+): Promise<PicotestExecutable[]> {
+  const executables = await getExecutables(workspaceFolder);
+  const filter = getTestFilter(workspaceFolder);
+  for (const executable of executables) {
+    const recording = executable.record && record;
+    if (recording) {
+      fs.mkdirSync(path.dirname(executable.record), { recursive: true });
+    }
+    executable.mtime = getModificationTime(executable);
+    const tests = await loadPicotestTests(
+      executable.command,
+      executable.cwd,
+      executable.loadArgs,
+      executable.env,
+      executable.launcher,
+      recording || executable.replay
+        ? getPicotestRecording(executable, 'load')
+        : {}
+    );
+    if (recording) {
+      // Run recording holds the runs since the last load
+      fs.writeFileSync(executable.record + RECORDING_SUFFIXES.run, '');
+    }
+    const mappedTests = mapPicotestTestPaths(executable, tests);
+    executable.tests = filterPicotestTests(mappedTests, filter);
+    executable.filtered = isFiltered(mappedTests, executable.tests);
+  }
+  return executables;
+}
+
+/**
+ * Get modification time of the test command file of an executable
+ *
+ * @param executable Executable
+ *
+ * @return Modification time in ms (undefined if the command is not a file)
+ */
+function getModificationTime(executable: PicotestExecutable) {
+  try {
+    return fs.statSync(path.resolve(executable.cwd, executable.command))
+      .mtimeMs;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Filter PicoTest tests with the include/exclude settings
+ *
+ * Patterns are matched against test paths, or test names for patterns
+ * without a path separator. Tags are written in test names, e.g.
+ * `[slow]`, and apply to subtests as well. Included suites include all
+ * their subtests, suites with no remaining subtests are removed.
+ *
+ * @param tests Tests to filter
+ * @param filter Test filter
+ * @param parentPath Path of the parent suite (undefined for top-level tests)
+ * @param parentTags Tags of the parent suites
+ * @param parentIncluded Whether the parent suite matches an include pattern
+ */
+function filterPicotestTests(
+  tests: PicotestTestInfo[],
+  filter: PicotestTestFilter,
+  parentPath?: string,
+  parentTags: string[] = [],
+  parentIncluded = !filter.include.length
+): PicotestTestInfo[] {
+  const matches = (testPath: string, patterns: string[]) =>
+    patterns.some((pattern) =>
+      minimatch(testPath, pattern, { matchBase: true })
+    );
+  const filtered: PicotestTestInfo[] = [];
+  for (const test of tests) {
+    const testPath = getTestPath(parentPath, test.name);
+    const tags = [...parentTags, ...getTestTags(test.name)];
+    if (
+      matches(testPath, filter.exclude) ||
+      tags.some((tag) => filter.excludeTags.includes(tag))
+    ) {
+      continue;
+    }
+    const included = parentIncluded || matches(testPath, filter.include);
+    if (!test.subtests) {
+      const tagged =
+        !filter.includeTags.length ||
+        tags.some((tag) => filter.includeTags.includes(tag));
+      if (included && tagged) filtered.push(test);
+      continue;
+    }
+    const subtests = filterPicotestTests(
+      test.subtests,
+      filter,
+      testPath,
+      tags,
+      included
+    );
+    if (!subtests.length) continue;
+    filtered.push({
+      ...test,
+      subtests,
+      filtered: isFiltered(test.subtests, subtests),
+    });
+  }
+  return filtered;
+}
+
+/**
+ * Check whether tests were removed by filtering
+ *
+ * @param tests Tests before filtering
+ * @param filtered Tests after filtering
+ */
+function isFiltered(tests: PicotestTestInfo[], filtered: PicotestTestInfo[]) {
+  return (
+    filtered.length < tests.length || filtered.some((test) => !!test.filtered)
+  );
+}
+
+/**
+ * Get tags from test name
+ *
+ * @param name Test name
+ *
+ * @return Tag names, e.g. `slow` for `[slow]`
+ */
+function getTestTags(name: string) {
+  const tags: string[] = [];
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(name))) tags.push(match[1]);
+  return tags;
+}
+
+/**
+ * Get test paths selecting all tests that remain after filtering
+ *
+ * Suites with filtered out subtests are replaced by their remaining subtests.
+ *
+ * @param executable Executable owning the tests
+ */
+function getFilteredTests(executable: PicotestExecutable) {
+  const paths: string[] = [];
+  const addTests = (tests: PicotestTestInfo[], parentPath?: string) => {
+    for (const test of tests) {
+      const testPath = getTestPath(parentPath, test.name);
+      if (test.filtered && test.subtests) addTests(test.subtests, testPath);
+      else paths.push(testPath);
+    }
+  };
+  addTests(executable.tests);
+  return paths;
+}
+
+/**
+ * Map file paths of PicoTest tests to the workspace
+ *
+ * @param executable Executable owning the tests
+ * @param tests Tests as reported by the test process
+ */
+function mapPicotestTestPaths(
+  executable: PicotestExecutable,
+  tests: PicotestTestInfo[]
+): PicotestTestInfo[] {
+  return tests.map((test) => ({
+    ...test,
+    file: mapPicotestPath(executable, test.file),
+    subtests: test.subtests && mapPicotestTestPaths(executable, test.subtests),
+  }));
+}
+
+/**
+ * Get executables & test lists cached by the last successful load
+ *
+ * Cached executables are for display only: they have no command to run.
+ *
+ * @param memento Workspace state
+ * @param workspaceFolder Workspace folder
+ *
+ * @return Cached executables (undefined if none)
+ */
+export function getCachedExecutables(
+  memento: vscode.Memento,
+  workspaceFolder: vscode.WorkspaceFolder
+): PicotestExecutable[] | undefined {
+  const cached = memento.get<PicotestCachedExecutable[]>(
+    `${CACHE_KEY}/${workspaceFolder.uri.toString()}`
+  );
+  if (!Array.isArray(cached)) return undefined;
+
+  return cached.map(({ id, tests }) => ({
+    id,
+    command: '',
+    cwd: '',
+    loadArgs: '',
+    runArgs: '',
+    env: {},
+    launcher: '',
+    record: '',
+    replay: false,
+    pathMappings: {},
+    tests,
+  }));
+}
+
+/**
+ * Cache executable test lists for the next startup
+ *
+ * Test file paths are cached as absolute paths.
+ *
+ * @param memento Workspace state
+ * @param workspaceFolder Workspace folder
+ * @param executables Loaded executables
+ */
+export function cacheExecutables(
+  memento: vscode.Memento,
+  workspaceFolder: vscode.WorkspaceFolder,
+  executables: PicotestExecutable[]
+) {
+  const resolveTests = (
+    cwd: string,
+    tests: PicotestTestInfo[]
+  ): PicotestTestInfo[] =>
+    tests.map((test) => ({
+      ...test,
+      file: path.resolve(cwd, test.file),
+      subtests: test.subtests && resolveTests(cwd, test.subtests),
+    }));
+  const cached: PicotestCachedExecutable[] = executables.map(
+    ({ id, cwd, tests }) => ({ id, tests: resolveTests(cwd, tests) })
+  );
+  return memento.update(
+    `${CACHE_KEY}/${workspaceFolder.uri.toString()}`,
+    cached
+  );
+}
+
+/**
+ * Get IDs of tests whose definition changed between two loads
+ *
+ * Tests are changed when they are new or when their location moved; tests
+ * that disappeared don't need to be reported.
+ *
+ * @param previous Previously loaded executables
+ * @param current Newly loaded executables
+ */
+export function getChangedTests(
+  previous: PicotestExecutable[],
+  current: PicotestExecutable[]
+): string[] {
+  const getLocations = (executables: PicotestExecutable[]) => {
+    const locations = new Map<string, string>();
+    const addTests = (
+      executable: PicotestExecutable,
+      tests: PicotestTestInfo[],
+      parentPath?: string
+    ) => {
+      for (const test of tests) {
+        const testPath = getTestPath(parentPath, test.name);
+        locations.set(
+          getTestId(executable, testPath),
+          `${path.resolve(executable.cwd, test.file)}:${test.line}`
+        );
+        if (test.subtests) addTests(executable, test.subtests, testPath);
+      }
+    };
+    for (const executable of executables) {
+      addTests(executable, executable.tests);
+    }
+    return locations;
+  };
+
+  const previousLocations = getLocations(previous);
+  const changed: string[] = [];
+  getLocations(current).forEach((location, id) => {
+    if (previousLocations.get(id) !== location) changed.push(id);
+  });
+  return changed;
+}
+
+/**
+ * Check whether executables or their test lists differ from the loaded ones
+ *
+ * Test command files are compared by modification time; test lists are only
+ * loaded again for commands that are not local files.
+ *
+ * @param workspaceFolder Workspace folder
+ * @param executables Loaded executables
+ */
+export async function haveExecutablesChanged(
+  workspaceFolder: vscode.WorkspaceFolder,
+  executables: PicotestExecutable[]
+): Promise<boolean> {
+  try {
+    const getSettings = (executables: PicotestExecutable[]) =>
+      JSON.stringify(
+        executables.map(({ tests, filtered, mtime, ...settings }) => settings)
+      );
+    const current = await getExecutables(workspaceFolder);
+    if (getSettings(current) !== getSettings(executables)) return true;
+
+    const mtimes = executables.map(getModificationTime);
+    if (executables.some(({ mtime }, i) => mtime !== mtimes[i])) return true;
+    if (mtimes.every((mtime) => mtime !== undefined)) return false;
+
+    const loaded = await loadExecutables(workspaceFolder, false);
+    return JSON.stringify(loaded) !== JSON.stringify(executables);
+  } catch (e) {
+    // Let a full reload report the error
+    return true;
+  }
+}
+
+/**
+ * Watch test command files
+ *
+ * @param workspaceFolder Workspace folder
+ * @param listener Called when a test command file is created or changed
+ *
+ * @return File system watchers
+ */
+export async function watchExecutables(
+  workspaceFolder: vscode.WorkspaceFolder,
+  listener: () => void
+): Promise<vscode.FileSystemWatcher[]> {
+  await resolveCommandVariables(workspaceFolder);
+  return getCommandConfigs(workspaceFolder).map(({ command, cwd }) => {
+    // Commands & glob patterns are relative to cwd
+    const pattern = path.resolve(workspaceFolder.uri.fsPath, cwd, command);
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      pattern,
+      false,
+      false,
+      true
+    );
+    watcher.onDidCreate(listener);
+    watcher.onDidChange(listener);
+    return watcher;
+  });
+}
+
+/**
+ * Watch source files matching the `autorunSources` setting
+ *
+ * Changes are collected for a short delay so that a single notification
+ * covers e.g. a "Save All".
+ *
+ * @param workspaceFolder Workspace folder
+ * @param listener Called with the paths of created or changed files
+ *
+ * @return File system watchers
+ */
+export function watchSources(
+  workspaceFolder: vscode.WorkspaceFolder,
+  listener: (files: string[]) => void
+): vscode.FileSystemWatcher[] {
+  const config = getWorkspaceConfiguration(workspaceFolder);
+  const patterns = config.get<string[]>('autorunSources') || [];
+
+  let files = new Set<string>();
+  let timer: NodeJS.Timer | undefined;
+  const onChange = (uri: vscode.Uri) => {
+    files.add(uri.fsPath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      const changed = [...files];
+      files = new Set<string>();
+      timer = undefined;
+      listener(changed);
+    }, SOURCE_CHANGE_DELAY);
+  };
+
+  return patterns.map((pattern) => {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(workspaceFolder, pattern),
+      false,
+      false,
+      true
+    );
+    watcher.onDidCreate(onChange);
+    watcher.onDidChange(onChange);
+    return watcher;
+  });
+}
+
+/**
+ * Get tests affected by source file changes
+ *
+ * Tests are affected when they are defined in a changed file. Files that
+ * don't define any test (e.g. shared headers) affect all tests.
+ *
+ * @param executables Loaded executables
+ * @param files Paths of changed files
+ *
+ * @return Affected tests (undefined for all)
+ */
+export function getTestsForSources(
+  executables: PicotestExecutable[],
+  files: string[]
+): PicotestTestRef[] | undefined {
+  const refs: PicotestTestRef[] = [];
+  for (const file of files) {
+    const fileRefs: PicotestTestRef[] = [];
+    for (const executable of executables) {
+      for (const name of findPicotestTestsByFile(
+        executable.cwd,
+        executable.tests,
+        path.resolve(file)
+      )) {
+        fileRefs.push({ executable, name });
+      }
+    }
+    if (!fileRefs.length) return undefined;
+    refs.push(...fileRefs);
+  }
+  return refs;
+}
+
+/**
+ * Find outermost PicoTest tests defined in a file
+ *
+ * @param cwd Directory test file paths are relative to
+ * @param tests Tests to search
+ * @param file Absolute file path
+ *
+ * @return Test names
+ */
+function findPicotestTestsByFile(
+  cwd: string,
+  tests: PicotestTestInfo[],
+  file: string,
+  parentPath?: string
+): string[] {
+  const names: string[] = [];
+  for (const test of tests) {
+    const testPath = getTestPath(parentPath, test.name);
+    if (path.resolve(cwd, test.file) === file) {
+      names.push(testPath);
+    } else if (test.subtests) {
+      names.push(
+        ...findPicotestTestsByFile(cwd, test.subtests, file, testPath)
+      );
+    }
+  }
+  return names;
+}
+
+/**
+ * Group test references by owning executable
+ *
+ * Whole executables with filtered out tests get their remaining tests
+ * explicitly, and are left out if none remain.
+ *
+ * @param refs Test references
+ *
+ * @return Executable to test name map (empty names for all)
+ */
+export function groupTestsByExecutable(
+  refs: PicotestTestRef[]
+): Map<PicotestExecutable, string[]> {
+  const groups = new Map<PicotestExecutable, string[]>();
+  const whole = new Set<PicotestExecutable>();
+  for (const { executable, name } of refs) {
+    if (whole.has(executable)) continue;
+
+    if (name === undefined) {
+      // Run whole executable
+      whole.add(executable);
+      if (!executable.filtered) {
+        groups.set(executable, []);
+        continue;
+      }
+      const names = getFilteredTests(executable);
+      if (names.length) groups.set(executable, names);
+      else groups.delete(executable);
+    } else {
+      const names = groups.get(executable) || [];
+      names.push(name);
+      groups.set(executable, names);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Get ID of a PicoTest test
+ *
+ * @param executable Executable owning the test
+ * @param name Test path
+ */
+export function getTestId(executable: PicotestExecutable, name: string) {
+  return executable.id ? executable.id + EXECUTABLE_SEPARATOR + name : name;
+}
+
+/**
+ * Get path of a PicoTest test
+ *
+ * Test paths are made of the names of the enclosing suites & the test
+ * itself, so that they stay unique when the same PicoTest test is part of
+ * several suites.
+ *
+ * @param parentPath Path of the parent suite (undefined for top-level tests)
+ * @param name PicoTest test name
+ */
+export function getTestPath(parentPath: string | undefined, name: string) {
+  return parentPath === undefined
+    ? name
+    : parentPath + TEST_PATH_SEPARATOR + name;
+}
+
+/**
+ * Get PicoTest test name from test path, e.g. for the command line
+ *
+ * @param testPath Test path
+ */
+export function getTestName(testPath: string) {
+  return testPath.substr(testPath.lastIndexOf(TEST_PATH_SEPARATOR) + 1);
+}
+
+/**
+ * Find PicoTest test by path
+ *
+ * @param tests Tests to search
+ * @param name Test path
+ */
+export function findPicotestTest(
+  tests: PicotestTestInfo[],
+  name: string
+): PicotestTestInfo | undefined {
+  const testPath = findPicotestTestPath(tests, name);
+  return testPath && testPath[testPath.length - 1];
+}
+
+/**
+ * Find PicoTest test & its ancestors by path
+ *
+ * @param tests Tests to search
+ * @param name Test path
+ *
+ * @return Tests from the top-level ancestor to the test itself
+ */
+export function findPicotestTestPath(
+  tests: PicotestTestInfo[],
+  name: string
+): PicotestTestInfo[] | undefined {
+  const ancestors: PicotestTestInfo[] = [];
+  let children: PicotestTestInfo[] | undefined = tests;
+  for (const testName of name.split(TEST_PATH_SEPARATOR)) {
+    const test: PicotestTestInfo | undefined =
+      children && children.find((child) => child.name === testName);
+    if (!test) return undefined;
+    ancestors.push(test);
+    children = test.subtests;
+  }
+  return ancestors;
+}
+
+/**
+ * Get test case paths in execution order
+ *
+ * Unknown paths are considered as test cases.
+ *
+ * @param executable Executable owning the tests
+ * @param names Test paths (empty for all)
+ */
+export function getPicotestCases(
+  executable: PicotestExecutable,
+  names: string[]
+): string[] {
+  const cases: string[] = [];
+  const addCases = (test: PicotestTestInfo, testPath: string) => {
+    if (test.subtests) {
+      for (const subtest of test.subtests) {
+        addCases(subtest, getTestPath(testPath, subtest.name));
+      }
+    } else {
+      cases.push(testPath);
+    }
+  };
+  if (names.length == 0) {
+    for (const test of executable.tests) addCases(test, test.name);
+  } else {
+    for (const name of names) {
+      const test = findPicotestTest(executable.tests, name);
+      if (test) addCases(test, name);
+      else cases.push(name);
+    }
+  }
+  return cases;
+}
@@ -0,0 +1,213 @@
+/**
+ * @file Persistent test run history
+ */
+
+import * as vscode from 'vscode';
+
+/** Workspace state key prefix */
+const HISTORY_KEY = 'picotestExplorer.history';
+
+/** Maximum number of records kept per test */
+const HISTORY_SIZE = 50;
+
+/** Number of recent records considered for flaky test detection */
+const FLAKY_WINDOW = 10;
+
+/** Minimum number of outcome flips for a test to be considered flaky */
+const FLAKY_FLIPS = 2;
+
+/** Test outcome */
+export type PicotestOutcome = 'passed' | 'failed' | 'errored' | 'skipped';
+
+/** Test history record */
+export interface PicotestHistoryRecord {
+  /** Timestamp in ms */
+  time: number;
+
+  /** Test outcome */
+  outcome: PicotestOutcome;
+}
+
+/**
+ * Test run history of a workspace folder
+ *
+ * Records are keyed by test ID and persisted in the workspace state.
+ */
+export class PicotestHistory {
+  /** Test ID to records map */
+  private records: { [id: string]: PicotestHistoryRecord[] };
+
+  /** Workspace state key */
+  private readonly key: string;
+
+  constructor(
+    private readonly memento: vscode.Memento,
+    public readonly workspaceFolder: vscode.WorkspaceFolder
+  ) {
+    this.key = `${HISTORY_KEY}/${workspaceFolder.uri.toString()}`;
+    this.records = memento.get(this.key, {});
+  }
+
+  /**
+   * Record test outcome
+   *
+   * @param id Test ID
+   * @param outcome Test outcome
+   */
+  record(id: string, outcome: PicotestOutcome) {
+    const records = (this.records[id] || []).concat({
+      time: Date.now(),
+      outcome,
+    });
+    this.records[id] = records.slice(-HISTORY_SIZE);
+  }
+
+  /**
+   * Persist history
+   */
+  save() {
+    return this.memento.update(this.key, this.records);
+  }
+
+  /**
+   * Get IDs of tests with recorded history
+   */
+  getTestIds() {
+    return Object.keys(this.records);
+  }
+
+  /**
+   * Get test records, oldest first
+   *
+   * @param id Test ID
+   */
+  getRecords(id: string): PicotestHistoryRecord[] {
+    return this.records[id] || [];
+  }
+
+  /**
+   * Check whether test outcome flips across recent runs
+   *
+   * @param id Test ID
+   */
+  isFlaky(id: string) {
+    const outcomes = this.getRecords(id)
+      .filter(({ outcome }) => outcome !== 'skipped')
+      .slice(-FLAKY_WINDOW)
+      .map(({ outcome }) => outcome === 'passed');
+    let flips = 0;
+    for (let i = 1; i < outcomes.length; i++) {
+      if (outcomes[i] !== outcomes[i - 1]) flips++;
+    }
+    return flips >= FLAKY_FLIPS;
+  }
+
+  /**
+   * Get description & tooltip flagging flaky tests
+   *
+   * @param id Test ID
+   */
+  getFlakyInfo(id: string): { description?: string; tooltip?: string } {
+    if (!this.isFlaky(id)) return {};
+    return {
+      description: 'flaky',
+      tooltip: `Flaky test, recent outcomes: ${formatTrend(
+        this.getRecords(id).slice(-FLAKY_WINDOW)
+      )}`,
+    };
+  }
+}
+
+/**
+ * Show pass/fail trend of a test
+ *
+ * @param histories Histories of all workspace folders
+ * @param id Test ID (asks the user when undefined)
+ */
+export async function showPicotestTestHistory(
+  histories: PicotestHistory[],
+  id?: string
+) {
+  // Select test
+  let selected: { history: PicotestHistory; id: string } | undefined;
+  if (id !== undefined) {
+    const history = histories.find((history) =>
+      history.getTestIds().includes(id)
+    );
+    if (history) selected = { history, id };
+  } else {
+    const multiRoot = histories.length > 1;
+    const items = histories.reduce(
+      (items, history) =>
+        items.concat(
+          history.getTestIds().map((id) => ({
+            label: id,
+            description: formatTrend(
+              history.getRecords(id).slice(-FLAKY_WINDOW)
+            ),
+            detail: multiRoot ? history.workspaceFolder.name : undefined,
+            history,
+            id,
+          }))
+        ),
+      [] as (vscode.QuickPickItem & { history: PicotestHistory; id: string })[]
+    );
+    selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select a test to show its history',
+      matchOnDescription: false,
+    });
+  }
+  if (!selected) {
+    if (id !== undefined) {
+      vscode.window.showInformationMessage(`No history for test ${id}`);
+    }
+    return;
+  }
+
+  // Show history as a Markdown document
+  const records = selected.history.getRecords(selected.id);
+  const passed = records.filter(({ outcome }) => outcome === 'passed').length;
+  const run = records.filter(({ outcome }) => outcome !== 'skipped').length;
+  const lines = [
+    `# PicoTest history: ${selected.id}`,
+    '',
+    `Trend (oldest first): ${formatTrend(records)}`,
+    '',
+    `Pass rate: ${
+      run ? Math.round((passed / run) * 100) : 0
+    }% (${passed}/${run})${
+      selected.history.isFlaky(selected.id) ? ', flaky' : ''
+    }`,
+    '',
+    '| Date | Outcome |',
+    '| ---- | ------- |',
+    ...records
+      .slice()
+      .reverse()
+      .map(
+        ({ time, outcome }) =>
+          `| ${new Date(time).toLocaleString()} | ${outcome} |`
+      ),
+    '',
+  ];
+  const document = await vscode.workspace.openTextDocument({
+    language: 'markdown',
+    content: lines.join('\n'),
+  });
+  await vscode.window.showTextDocument(document);
+}
+
+/**
+ * Format outcome trend
+ *
+ * @param records Test records
+ */
+function formatTrend(records: PicotestHistoryRecord[]) {
+  const symbols: { [outcome in PicotestOutcome]: string } = {
+    passed: '✔',
+    failed: '✘',
+    errored: '!',
+    skipped: '-',
+  };
+  return records.map(({ outcome }) => symbols[outcome]).join('');
+}
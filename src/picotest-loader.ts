@@ -0,0 +1,156 @@
+/**
+ * @file Test list loading & watching shared by the Test Explorer & native
+ * frontends
+ */
+
+import * as vscode from 'vscode';
+import { Log } from 'vscode-test-adapter-util';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import {
+  CONFIGURATION_SCOPE,
+  affectsTestFilter,
+  isAutoReload,
+  resolveCommandVariables,
+} from './picotest-config';
+import {
+  loadExecutables,
+  getCachedExecutables,
+  cacheExecutables,
+  haveExecutablesChanged,
+  watchExecutables,
+  watchSources,
+} from './picotest-executables';
+import { runPicotestPreLaunchTask } from './picotest-tasks';
+import { clearPicotestDiagnostics } from './picotest-diagnostics';
+
+/**
+ * Test lists of a workspace folder
+ *
+ * Until the first load completes, the test lists cached by the last session
+ * can be shown. Executables that don't come from a successful load are
+ * stale and must not be run.
+ */
+export class PicotestLoader {
+  /** Discovered Picotest executables & tests */
+  executables: PicotestExecutable[] = [];
+
+  /** Whether the executables are not from a successful load, and can't run */
+  stale = true;
+
+  /** Whether the test tree cached by the last session was shown */
+  private cacheShown = false;
+
+  constructor(
+    private readonly workspaceFolder: vscode.WorkspaceFolder,
+    private readonly memento: vscode.Memento
+  ) {}
+
+  /**
+   * Get the executables cached by the last session, the first time only
+   *
+   * @return Whether cached executables are to be shown
+   */
+  loadCache() {
+    if (this.cacheShown) return false;
+    this.cacheShown = true;
+    const cached = getCachedExecutables(this.memento, this.workspaceFolder);
+    if (!cached) return false;
+    this.executables = cached;
+    return true;
+  }
+
+  /**
+   * Load test lists of all executables
+   *
+   * On failure, the last known executables are kept as stale ones.
+   *
+   * @return Previously loaded executables
+   *
+   * @throws Error if the executables cannot be loaded
+   */
+  async load(): Promise<PicotestExecutable[]> {
+    const previous = this.executables;
+    try {
+      await resolveCommandVariables(this.workspaceFolder, true);
+      this.executables = await loadExecutables(this.workspaceFolder);
+    } catch (e) {
+      this.stale = true;
+      throw e;
+    }
+    this.stale = false;
+    clearPicotestDiagnostics(this.workspaceFolder);
+    await cacheExecutables(
+      this.memento,
+      this.workspaceFolder,
+      this.executables
+    );
+    return previous;
+  }
+
+  /**
+   * Run pre-launch task if any
+   *
+   * @return Whether the test lists must be reloaded before running tests
+   */
+  async runPreLaunchTask(): Promise<boolean> {
+    if (
+      (await runPicotestPreLaunchTask(this.workspaceFolder)) &&
+      (await haveExecutablesChanged(this.workspaceFolder, this.executables))
+    ) {
+      return true;
+    }
+    return this.stale;
+  }
+}
+
+/**
+ * Watch test commands & sources of a workspace folder
+ *
+ * Watchers are registered again whenever settings change.
+ *
+ * @param workspaceFolder Workspace folder
+ * @param log Log
+ * @param onReload Called when the test lists must be reloaded
+ * @param onSourcesChange Called with the paths of changed source files
+ *
+ * @return Disposable unregistering the watchers
+ */
+export function watchPicotestWorkspace(
+  workspaceFolder: vscode.WorkspaceFolder,
+  log: Log,
+  onReload: () => void,
+  onSourcesChange: (files: string[]) => void
+): vscode.Disposable {
+  let watchers: vscode.FileSystemWatcher[] = [];
+  const register = async () => {
+    watchers = watchSources(workspaceFolder, onSourcesChange);
+
+    if (!isAutoReload(workspaceFolder)) return;
+
+    try {
+      watchers.push(...(await watchExecutables(workspaceFolder, onReload)));
+    } catch (e) {
+      log.error('Cannot watch PicoTest test commands', e.toString());
+    }
+  };
+  const unregister = () => {
+    for (const watcher of watchers) watcher.dispose();
+    watchers = [];
+  };
+
+  register();
+  const configurationListener = vscode.workspace.onDidChangeConfiguration(
+    (e) => {
+      if (e.affectsConfiguration(CONFIGURATION_SCOPE, workspaceFolder.uri)) {
+        unregister();
+        register();
+        if (affectsTestFilter(e, workspaceFolder)) onReload();
+      }
+    }
+  );
+  return new vscode.Disposable(() => {
+    configurationListener.dispose();
+    unregister();
+  });
+}
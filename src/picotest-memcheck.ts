@@ -0,0 +1,148 @@
+/**
+ * @file Valgrind memcheck integration
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** Memcheck stack frame */
+export interface PicotestMemcheckFrame {
+  /** Function name */
+  fn?: string;
+
+  /** Source file path */
+  file?: string;
+
+  /** Source line number */
+  line?: number;
+
+  /** Object file path */
+  obj?: string;
+}
+
+/** Memcheck error */
+export interface PicotestMemcheckError {
+  /** Error kind, e.g. `InvalidRead` or `Leak_DefinitelyLost` */
+  kind: string;
+
+  /** Error description */
+  what: string;
+
+  /** Stack trace, innermost frame first */
+  stack: PicotestMemcheckFrame[];
+}
+
+/** Counter for unique XML output file names */
+let xmlFileCounter = 0;
+
+/**
+ * Get a new memcheck XML output file path
+ */
+export function getMemcheckXmlFile() {
+  return path.join(
+    os.tmpdir(),
+    `picotest-memcheck-${process.pid}-${++xmlFileCounter}.xml`
+  );
+}
+
+/**
+ * Get launcher prefix running a command under memcheck
+ *
+ * @param memcheckCommand Valgrind command line
+ * @param xmlFile XML output file path
+ */
+export function getMemcheckLauncher(memcheckCommand: string, xmlFile: string) {
+  return `${memcheckCommand} --tool=memcheck --xml=yes "--xml-file=${xmlFile}"`;
+}
+
+/**
+ * Read memcheck errors from XML output file, then delete it
+ *
+ * @param xmlFile XML output file path
+ *
+ * @return Memcheck errors (empty if the file is missing)
+ */
+export function readMemcheckErrors(xmlFile: string): PicotestMemcheckError[] {
+  let xml: string;
+  try {
+    xml = fs.readFileSync(xmlFile, 'utf8');
+  } catch (e) {
+    return [];
+  }
+  fs.unlinkSync(xmlFile);
+  return parseMemcheckXml(xml);
+}
+
+/**
+ * Format memcheck error message with its stack trace
+ *
+ * @param error Memcheck error
+ */
+export function formatMemcheckError(error: PicotestMemcheckError) {
+  const frames = error.stack.map(({ fn, file, line, obj }) => {
+    const location = file ? `${file}:${line}` : obj || '???';
+    return fn ? `   at ${fn} (${location})` : `   at ${location}`;
+  });
+  return [error.what, ...frames].join('\n');
+}
+
+/**
+ * Parse memcheck XML output
+ *
+ * Only the main stack of each error is kept. Truncated output (e.g. from a
+ * killed process) yields the errors written so far.
+ *
+ * @param xml XML output
+ */
+function parseMemcheckXml(xml: string): PicotestMemcheckError[] {
+  const errors: PicotestMemcheckError[] = [];
+  const errorPattern = /<error>([\s\S]*?)<\/error>/g;
+  let match: RegExpExecArray | null;
+  while ((match = errorPattern.exec(xml))) {
+    const body = match[1];
+    const xwhat = getElement(body, 'xwhat');
+    const stack = getElement(body, 'stack') || '';
+    errors.push({
+      kind: getElement(body, 'kind') || 'Unknown',
+      what:
+        (xwhat && getElement(xwhat, 'text')) || getElement(body, 'what') || '',
+      stack: (stack.match(/<frame>[\s\S]*?<\/frame>/g) || []).map(parseFrame),
+    });
+  }
+  return errors;
+}
+
+/**
+ * Parse memcheck stack frame
+ *
+ * @param frame Frame element
+ */
+function parseFrame(frame: string): PicotestMemcheckFrame {
+  const dir = getElement(frame, 'dir');
+  const file = getElement(frame, 'file');
+  const line = getElement(frame, 'line');
+  return {
+    fn: getElement(frame, 'fn'),
+    file: file && (dir ? path.join(dir, file) : file),
+    line: line ? Number(line) : undefined,
+    obj: getElement(frame, 'obj'),
+  };
+}
+
+/**
+ * Get text content of the first XML element with the given name
+ *
+ * @param xml XML text
+ * @param name Element name
+ */
+function getElement(xml: string, name: string) {
+  const match = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  if (!match) return undefined;
+  return match[1]
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
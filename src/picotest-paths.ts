@@ -0,0 +1,34 @@
+/**
+ * @file Path mapping between test processes & the workspace
+ */
+
+import * as path from 'path';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+
+/**
+ * Map file path from the test process to the workspace
+ *
+ * The longest matching prefix from the path mappings is replaced. Prefixes
+ * only match whole path components, e.g. `/src` matches `/src/main.c` but not
+ * `/src2/main.c`.
+ *
+ * @param executable Executable owning the path
+ * @param file File path as reported by the test process
+ */
+export function mapPicotestPath(executable: PicotestExecutable, file: string) {
+  const isSeparator = (c: string) => c === '/' || c === '\\';
+  const prefix = Object.keys(executable.pathMappings)
+    .filter(
+      (prefix) =>
+        file.startsWith(prefix) &&
+        (file.length == prefix.length ||
+          isSeparator(prefix[prefix.length - 1]) ||
+          isSeparator(file[prefix.length]))
+    )
+    .sort((a, b) => b.length - a.length)[0];
+  if (prefix === undefined) return file;
+  return path.normalize(
+    executable.pathMappings[prefix] + file.substr(prefix.length)
+  );
+}
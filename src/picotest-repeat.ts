@@ -0,0 +1,107 @@
+/**
+ * @file Repeated test runs for intermittent failures
+ */
+
+import * as path from 'path';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import { PicotestTestResult } from './interfaces/picotest-test-result';
+import { PicotestEvent } from './picotest-runner';
+import { PicotestRepeatOptions } from './picotest-config';
+import { runPicotestSession, PicotestSessionOptions } from './picotest-session';
+
+/** Outcome of repeated test sessions */
+export interface PicotestRepeatResult {
+  /** Number of iterations run */
+  iterations: number;
+
+  /** Iteration that failed (undefined if none) */
+  failedIteration?: number;
+
+  /** Result of the last session */
+  result: PicotestTestResult;
+}
+
+/**
+ * Run a PicoTest test session repeatedly until the first failure
+ *
+ * Sessions are repeated up to the configured count or until the time budget
+ * runs out. Only the events of the last iteration, i.e. the failing one if
+ * any, are passed to the event callback once done.
+ *
+ * @param executable Executable to run
+ * @param tests Test paths (empty for all)
+ * @param options Session options
+ * @param repeat Repeat options
+ * @param onEvent Event callback
+ * @param onLiveEvent Called with the events of every iteration as they come
+ */
+export async function runPicotestRepeatedly(
+  executable: PicotestExecutable,
+  tests: string[],
+  options: PicotestSessionOptions,
+  repeat: PicotestRepeatOptions,
+  onEvent: (event: PicotestEvent) => void,
+  onLiveEvent?: (event: PicotestEvent) => void
+): Promise<PicotestRepeatResult> {
+  const { isCancelled } = options;
+  const start = Date.now();
+  let iterations = 0;
+  let failedIteration: number | undefined;
+  let events: PicotestEvent[];
+  let result: PicotestTestResult;
+  for (;;) {
+    iterations++;
+    events = [];
+    let failed = false;
+    result = await runPicotestSession(executable, tests, options, (event) => {
+      if (onLiveEvent) onLiveEvent(event);
+      events.push(event);
+      if (
+        event.hook === 'CASE_ERROR' ||
+        (event.hook === 'CASE_LEAVE' && event.fail)
+      ) {
+        failed = true;
+      }
+    });
+    if (failed) {
+      failedIteration = iterations;
+      break;
+    }
+    if (
+      iterations >= repeat.count ||
+      (repeat.timeBudget && Date.now() - start >= repeat.timeBudget) ||
+      (isCancelled && isCancelled())
+    ) {
+      break;
+    }
+  }
+
+  for (const event of events) onEvent(event);
+  return { iterations, failedIteration, result };
+}
+
+/**
+ * Format summary of repeated test sessions
+ *
+ * @param executable Executable that was run
+ * @param tests Test paths (empty for all)
+ * @param repeat Repeat options
+ * @param repeatResult Outcome of repeated sessions
+ */
+export function formatPicotestRepeatResult(
+  executable: PicotestExecutable,
+  tests: string[],
+  repeat: PicotestRepeatOptions,
+  { iterations, failedIteration }: PicotestRepeatResult
+) {
+  const name = tests.length
+    ? tests.join(', ')
+    : executable.id || path.basename(executable.command);
+  if (failedIteration !== undefined) {
+    return `PicoTest ${name}: failed at iteration ${failedIteration} of ${repeat.count}`;
+  }
+  return iterations < repeat.count
+    ? `PicoTest ${name}: passed ${iterations} of ${repeat.count} iterations before stopping`
+    : `PicoTest ${name}: passed all ${iterations} iterations`;
+}
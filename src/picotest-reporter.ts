@@ -0,0 +1,504 @@
+/**
+ * @file JUnit XML & TAP test reports
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import {
+  getPicotestErrorMessage,
+  PicotestEvent,
+  PicotestFailureEvent,
+} from './picotest-runner';
+import { getConfigStrings } from './picotest-config';
+import {
+  findPicotestTestPath,
+  getTestId,
+  getTestName,
+} from './picotest-executables';
+import { PicotestTimings } from './picotest-timing';
+import { escapeXml } from './picotest-xml';
+
+/** Report test suite */
+interface ReportSuite {
+  type: 'suite';
+  name: string;
+  children: Map<string, ReportSuite | ReportCase>;
+
+  /** Duration in ms (undefined when not run as a whole) */
+  duration?: number;
+}
+
+/** Report test case */
+interface ReportCase {
+  type: 'case';
+  name: string;
+  state: 'running' | 'passed' | 'failed' | 'errored' | 'skipped';
+  failures: PicotestFailureEvent[];
+  output: string[];
+
+  /** Error or skip message */
+  message?: string;
+
+  /** Duration in ms */
+  duration?: number;
+}
+
+/** Report file paths */
+export interface PicotestReportPaths {
+  /** JUnit XML report path (empty for none) */
+  junit: string;
+
+  /** TAP report path (empty for none) */
+  tap: string;
+}
+
+/**
+ * PicoTest test reporter
+ *
+ * Collects PicoTest events during a test run and writes them as JUnit XML
+ * and/or TAP reports.
+ */
+export class PicotestReporter {
+  /** Executable to root suite map */
+  private roots = new Map<PicotestExecutable, ReportSuite>();
+
+  constructor(private readonly paths: PicotestReportPaths) {}
+
+  /**
+   * Create event listener for a test process or session
+   *
+   * Suites & cases are located in the executable test tree, so that results
+   * from several processes end up in the same report structure. Durations
+   * are taken from the run timings, which must be recorded first.
+   *
+   * @param executable Executable being run
+   * @param timings Run timings
+   */
+  createListener(executable: PicotestExecutable, timings: PicotestTimings) {
+    const root = this.getRoot(executable);
+    const stack: ReportSuite[] = [root];
+    let current: ReportCase | undefined;
+
+    const getNode = <T extends ReportSuite | ReportCase>(
+      name: string,
+      create: (name: string) => T
+    ): T => {
+      // Create ancestors from the test tree, else use the current suite
+      const testPath = findPicotestTestPath(executable.tests, name);
+      let parent = testPath ? root : stack[stack.length - 1];
+      for (const ancestor of (testPath || []).slice(0, -1)) {
+        parent = getChild(parent, ancestor.name, newSuite);
+      }
+      return getChild(parent, getTestName(name), create);
+    };
+
+    const getDuration = (name: string) => {
+      const timing = timings.get(getTestId(executable, name));
+      return timing && timing.duration;
+    };
+
+    return (event: PicotestEvent) => {
+      switch (event.hook) {
+        case 'SUITE_ENTER': {
+          const suite = getNode(event.suiteName, newSuite);
+          suite.duration = undefined;
+          stack.push(suite);
+          break;
+        }
+        case 'SUITE_LEAVE': {
+          const suite = getNode(event.suiteName, newSuite);
+          suite.duration = getDuration(event.suiteName);
+          const index = stack.lastIndexOf(suite);
+          if (index > 0) stack.splice(index, 1);
+          break;
+        }
+        case 'CASE_ENTER':
+          current = getNode(event.testName, newCase);
+          current.state = 'running';
+          current.failures = [];
+          current.output = [];
+          current.duration = undefined;
+          break;
+        case 'FAILURE':
+          if (current) current.failures.push(event);
+          break;
+        case 'OUTPUT':
+          if (current) current.output.push(event.text);
+          break;
+        case 'CASE_LEAVE':
+        case 'CASE_ERROR': {
+          const testCase = getNode(event.testName, newCase);
+          if (event.hook === 'CASE_ERROR') {
+            testCase.state = 'errored';
+            testCase.message = event.message;
+          } else {
+            testCase.state = event.fail ? 'failed' : 'passed';
+          }
+          testCase.duration = getDuration(event.testName);
+          current = undefined;
+          break;
+        }
+        case 'CASE_SKIP': {
+          const testCase = getNode(event.testName, newCase);
+          testCase.state = 'skipped';
+          testCase.message = event.message;
+          break;
+        }
+      }
+    };
+  }
+
+  /**
+   * Get or create root suite of an executable
+   *
+   * @param executable Executable
+   */
+  private getRoot(executable: PicotestExecutable) {
+    let root = this.roots.get(executable);
+    if (!root) {
+      root = newSuite(executable.id || path.basename(executable.command));
+      this.roots.set(executable, root);
+    }
+    return root;
+  }
+
+  /**
+   * Write reports
+   */
+  async write() {
+    const suites = [...this.roots.values()];
+    if (this.paths.junit) {
+      await writeFile(this.paths.junit, formatJunit(suites));
+    }
+    if (this.paths.tap) {
+      await writeFile(this.paths.tap, formatTap(suites));
+    }
+  }
+}
+
+/**
+ * Create test reporter from settings
+ *
+ * @param workspaceFolder Workspace folder
+ *
+ * @return Test reporter (undefined if no report is configured)
+ */
+export function createPicotestReporter(
+  workspaceFolder: vscode.WorkspaceFolder
+): PicotestReporter | undefined {
+  const [junitReport, tapReport] = getConfigStrings(workspaceFolder, [
+    'junitReport',
+    'tapReport',
+  ]);
+  if (!junitReport && !tapReport) return undefined;
+
+  const resolve = (reportPath: string) =>
+    reportPath && path.resolve(workspaceFolder.uri.fsPath, reportPath);
+  return new PicotestReporter({
+    junit: resolve(junitReport),
+    tap: resolve(tapReport),
+  });
+}
+
+/**
+ * Create report suite
+ *
+ * @param name Suite name
+ */
+function newSuite(name: string): ReportSuite {
+  return { type: 'suite', name, children: new Map() };
+}
+
+/**
+ * Create report case
+ *
+ * @param name Case name
+ */
+function newCase(name: string): ReportCase {
+  return { type: 'case', name, state: 'skipped', failures: [], output: [] };
+}
+
+/**
+ * Get or create child of report suite
+ *
+ * @param parent Parent suite
+ * @param name Child name
+ * @param create Child factory
+ */
+function getChild<T extends ReportSuite | ReportCase>(
+  parent: ReportSuite,
+  name: string,
+  create: (name: string) => T
+): T {
+  const child = parent.children.get(name);
+  if (child) return child as T;
+
+  const newChild = create(name);
+  parent.children.set(name, newChild);
+  return newChild;
+}
+
+/**
+ * Get report cases of a suite recursively
+ *
+ * @param suite Report suite
+ */
+function getCases(suite: ReportSuite): ReportCase[] {
+  const cases: ReportCase[] = [];
+  suite.children.forEach((child) => {
+    if (child.type === 'case') cases.push(child);
+    else cases.push(...getCases(child));
+  });
+  return cases;
+}
+
+/**
+ * Get duration of a report node in ms
+ *
+ * @param node Report suite or case
+ */
+function getDuration(node: ReportSuite | ReportCase): number {
+  if (node.duration !== undefined) return node.duration;
+  if (node.type === 'case') return 0;
+  let duration = 0;
+  node.children.forEach((child) => (duration += getDuration(child)));
+  return duration;
+}
+
+/**
+ * Get summary counts of a report suite
+ *
+ * @param suite Report suite
+ */
+function getCounts(suite: ReportSuite) {
+  const cases = getCases(suite);
+  const count = (state: ReportCase['state']) =>
+    cases.filter((testCase) => testCase.state === state).length;
+  return {
+    tests: cases.length,
+    failures: count('failed'),
+    errors: count('errored'),
+    skipped: count('skipped'),
+  };
+}
+
+/**
+ * Format PicoTest failure for reports
+ *
+ * @param event PicoTest failure event
+ */
+function formatFailure(event: PicotestFailureEvent) {
+  return `${event.file}:${event.line} - ${getPicotestErrorMessage(event)}`;
+}
+
+/**
+ * Format JUnit XML report
+ *
+ * @param suites Root suites, one per executable
+ */
+function formatJunit(suites: ReportSuite[]) {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const total = { tests: 0, failures: 0, errors: 0, skipped: 0, duration: 0 };
+  for (const suite of suites) {
+    const counts = getCounts(suite);
+    total.tests += counts.tests;
+    total.failures += counts.failures;
+    total.errors += counts.errors;
+    total.skipped += counts.skipped;
+    total.duration += getDuration(suite);
+  }
+  lines.push(
+    `<testsuites name="PicoTest" tests="${total.tests}" failures="${
+      total.failures
+    }" errors="${total.errors}" skipped="${total.skipped}" time="${formatTime(
+      total.duration
+    )}">`
+  );
+  for (const suite of suites) {
+    formatJunitSuite(lines, suite, [], '  ');
+  }
+  lines.push('</testsuites>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Format JUnit XML suite element
+ *
+ * @param lines Output lines
+ * @param suite Report suite
+ * @param parents Names of parent suites
+ * @param indent Indentation
+ */
+function formatJunitSuite(
+  lines: string[],
+  suite: ReportSuite,
+  parents: string[],
+  indent: string
+) {
+  const counts = getCounts(suite);
+  lines.push(
+    `${indent}<testsuite name="${escapeXml(suite.name)}" tests="${
+      counts.tests
+    }" failures="${counts.failures}" errors="${counts.errors}" skipped="${
+      counts.skipped
+    }" time="${formatTime(getDuration(suite))}">`
+  );
+  const classname = escapeXml([...parents, suite.name].join('.'));
+  suite.children.forEach((child) => {
+    if (child.type === 'suite') {
+      formatJunitSuite(lines, child, [...parents, suite.name], indent + '  ');
+      return;
+    }
+
+    const attributes = `name="${escapeXml(
+      child.name
+    )}" classname="${classname}" time="${formatTime(getDuration(child))}"`;
+    const body: string[] = [];
+    for (const failure of child.failures) {
+      body.push(
+        `<failure message="${escapeXml(
+          failure.msg || failure.test
+        )}" type="${escapeXml(failure.type)}">${escapeXml(
+          formatFailure(failure)
+        )}</failure>`
+      );
+    }
+    if (child.state === 'failed' && !child.failures.length) {
+      body.push('<failure message="Test failed"/>');
+    } else if (child.state === 'errored') {
+      const message = child.message || '';
+      body.push(
+        `<error message="${escapeXml(message.split('\n')[0])}">${escapeXml(
+          message
+        )}</error>`
+      );
+    } else if (child.state === 'skipped') {
+      body.push(`<skipped message="${escapeXml(child.message || '')}"/>`);
+    }
+    if (child.output.length) {
+      body.push(`<system-out>${escapeXml(child.output.join(''))}</system-out>`);
+    }
+    if (body.length) {
+      lines.push(`${indent}  <testcase ${attributes}>`);
+      for (const line of body) lines.push(`${indent}    ${line}`);
+      lines.push(`${indent}  </testcase>`);
+    } else {
+      lines.push(`${indent}  <testcase ${attributes}/>`);
+    }
+  });
+  lines.push(`${indent}</testsuite>`);
+}
+
+/**
+ * Format TAP report
+ *
+ * Suites are formatted as TAP subtests
+ *
+ * @param suites Root suites, one per executable
+ */
+function formatTap(suites: ReportSuite[]) {
+  const lines = ['TAP version 13'];
+  const root = newSuite('PicoTest');
+  for (const suite of suites) root.children.set(suite.name, suite);
+  formatTapSuite(lines, root, '');
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Format TAP suite test points
+ *
+ * @param lines Output lines
+ * @param suite Report suite
+ * @param indent Indentation
+ *
+ * @return Whether the suite passed
+ */
+function formatTapSuite(
+  lines: string[],
+  suite: ReportSuite,
+  indent: string
+): boolean {
+  let number = 0;
+  let ok = true;
+  suite.children.forEach((child) => {
+    number++;
+    if (child.type === 'suite') {
+      lines.push(`${indent}# Subtest: ${child.name}`);
+      const childOk = formatTapSuite(lines, child, indent + '    ');
+      ok = ok && childOk;
+      lines.push(
+        `${indent}${childOk ? 'ok' : 'not ok'} ${number} - ${child.name}`
+      );
+      return;
+    }
+
+    const childOk = child.state !== 'failed' && child.state !== 'errored';
+    ok = ok && childOk;
+    const directive =
+      child.state === 'skipped'
+        ? ` # SKIP ${child.message || ''}`.trimRight()
+        : '';
+    lines.push(
+      `${indent}${childOk ? 'ok' : 'not ok'} ${number} - ${
+        child.name
+      }${directive}`
+    );
+    if (!childOk || child.output.length) {
+      lines.push(`${indent}  ---`);
+      if (child.message) {
+        lines.push(`${indent}  message: ${JSON.stringify(child.message)}`);
+      }
+      if (child.state !== 'passed') {
+        lines.push(`${indent}  severity: ${child.state}`);
+      }
+      if (child.failures.length) {
+        lines.push(`${indent}  failures:`);
+        for (const { file, line, type, msg } of child.failures) {
+          lines.push(`${indent}    - file: ${JSON.stringify(file)}`);
+          lines.push(`${indent}      line: ${line}`);
+          lines.push(`${indent}      type: ${JSON.stringify(type)}`);
+          if (msg) lines.push(`${indent}      msg: ${JSON.stringify(msg)}`);
+        }
+      }
+      if (child.output.length) {
+        lines.push(
+          `${indent}  output: ${JSON.stringify(child.output.join(''))}`
+        );
+      }
+      lines.push(`${indent}  duration_ms: ${getDuration(child)}`);
+      lines.push(`${indent}  ...`);
+    }
+  });
+  lines.push(`${indent}1..${number}`);
+  return ok;
+}
+
+/**
+ * Format duration in seconds
+ *
+ * @param duration Duration in ms
+ */
+function formatTime(duration: number) {
+  return (duration / 1000).toFixed(3);
+}
+
+/**
+ * Write file, creating parent directories as needed
+ *
+ * @param filePath File path
+ * @param data File contents
+ */
+function writeFile(filePath: string, data: string) {
+  return new Promise<void>((resolve, reject) => {
+    fs.mkdir(path.dirname(filePath), { recursive: true }, (error) => {
+      if (error) return reject(error);
+      fs.writeFile(filePath, data, (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  });
+}
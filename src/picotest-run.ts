@@ -0,0 +1,332 @@
+/**
+ * @file Test runs shared by the Test Explorer & native frontends
+ */
+
+import * as vscode from 'vscode';
+import { Log } from 'vscode-test-adapter-util';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import { PicotestTestProcess } from './interfaces/picotest-test-process';
+import { PicotestTestResult } from './interfaces/picotest-test-result';
+import {
+  cancelPicotestTestProcess,
+  PicotestEvent,
+  PicotestFailureEvent,
+} from './picotest-runner';
+import {
+  getTestTimeouts,
+  getMemcheckCommand,
+  PicotestRepeatOptions,
+} from './picotest-config';
+import { getTestId } from './picotest-executables';
+import { runPicotestSession, PicotestSessionOptions } from './picotest-session';
+import {
+  runPicotestRepeatedly,
+  formatPicotestRepeatResult,
+} from './picotest-repeat';
+import { createPicotestReporter, PicotestReporter } from './picotest-reporter';
+import { PicotestHistory, PicotestOutcome } from './picotest-history';
+import { PicotestTimings, setLastRunTimings } from './picotest-timing';
+import { setPicotestDiagnostics } from './picotest-diagnostics';
+import {
+  resetPicotestCoverage,
+  collectPicotestCoverage,
+  showPicotestCoverage,
+  formatPicotestCoverage,
+} from './picotest-coverage';
+
+/** Test run options */
+export interface PicotestRunOptions {
+  /** Whether to collect coverage */
+  coverage: boolean;
+
+  /** Whether to run tests under memcheck */
+  memcheck: boolean;
+
+  /** Repeat options (undefined for a single run) */
+  repeat?: PicotestRepeatOptions;
+}
+
+/** Final state of a test case or suite */
+export interface PicotestRunResult {
+  /** Test ID */
+  id: string;
+
+  /** Whether the test is a suite */
+  suite: boolean;
+
+  /** Test outcome */
+  outcome: PicotestOutcome;
+
+  /** Error message of errored & skipped cases, fail count of failed suites */
+  message?: string;
+
+  /** Failures of the test case */
+  failures: PicotestFailureEvent[];
+
+  /** Output captured during the test case */
+  output: string[];
+
+  /** Duration in ms (undefined if unknown) */
+  duration?: number;
+}
+
+/** Frontend callbacks of a test run */
+export interface PicotestRunListener {
+  /** Called when a test case or suite starts */
+  started(id: string, suite: boolean): void;
+
+  /** Called when a test case or suite completes */
+  completed(result: PicotestRunResult): void;
+
+  /**
+   * Called with test process output, and with run messages outside test
+   * cases
+   *
+   * @param text Output text
+   * @param captured Whether the text is captured by the running test case
+   */
+  output(text: string, captured: boolean): void;
+}
+
+/**
+ * Test run of a workspace folder
+ *
+ * The run turns the events of the test processes into final test states, and
+ * feeds the reports, timings, history & diagnostics along the way. Frontends
+ * only map the states to their own API.
+ */
+export class PicotestRun {
+  /** Test timings of the run */
+  readonly timings = new PicotestTimings();
+
+  /** Test reporter (undefined if no report is set) */
+  private readonly reporter?: PicotestReporter;
+
+  /** Valgrind command line (undefined without memcheck) */
+  private readonly memcheckCommand?: string;
+
+  /** Currently running test processes */
+  private readonly testProcesses = new Set<PicotestTestProcess>();
+
+  /** Whether the run was cancelled */
+  private cancelled = false;
+
+  /**
+   * Create test run
+   *
+   * @param workspaceFolder Workspace folder
+   * @param log Log
+   * @param history Test run history
+   * @param options Run options
+   *
+   * @throws Error if run settings have unknown variables
+   */
+  constructor(
+    private readonly workspaceFolder: vscode.WorkspaceFolder,
+    private readonly log: Log,
+    private readonly history: PicotestHistory,
+    private readonly options: PicotestRunOptions
+  ) {
+    this.reporter = createPicotestReporter(workspaceFolder);
+    this.memcheckCommand = options.memcheck
+      ? getMemcheckCommand(workspaceFolder)
+      : undefined;
+  }
+
+  /**
+   * Check whether the run was cancelled
+   */
+  isCancelled() {
+    return this.cancelled;
+  }
+
+  /**
+   * Cancel the run, killing the running test processes
+   */
+  cancel() {
+    this.cancelled = true;
+    this.testProcesses.forEach(cancelPicotestTestProcess);
+  }
+
+  /**
+   * Reset coverage counters before running tests, if collecting coverage
+   *
+   * @param executables Executables to run
+   */
+  async resetCoverage(executables: PicotestExecutable[]) {
+    if (!this.options.coverage) return;
+    try {
+      await resetPicotestCoverage(this.workspaceFolder, executables);
+    } catch (e) {
+      this.log.error('Error resetting PicoTest coverage', e.toString());
+    }
+  }
+
+  /**
+   * Run tests of a single executable
+   *
+   * @param executable Executable to run
+   * @param tests Test names (empty for all)
+   * @param listener Frontend callbacks
+   */
+  async runExecutable(
+    executable: PicotestExecutable,
+    tests: string[],
+    listener: PicotestRunListener
+  ) {
+    const time = this.timings.createListener(executable);
+    const report =
+      this.reporter && this.reporter.createListener(executable, this.timings);
+    const options: PicotestSessionOptions = {
+      getTimeout: getTestTimeouts(this.workspaceFolder),
+      onSpawn: (testProcess) => this.testProcesses.add(testProcess),
+      onExit: (testProcess) => this.testProcesses.delete(testProcess),
+      isCancelled: () => this.cancelled,
+      memcheckCommand: this.memcheckCommand,
+      workspacePath: this.workspaceFolder.uri.fsPath,
+    };
+    let failures: PicotestFailureEvent[] = [];
+    let output: string[] | undefined;
+    const complete = (
+      name: string,
+      suite: boolean,
+      outcome: PicotestOutcome,
+      message?: string
+    ) => {
+      const id = getTestId(executable, name);
+      const timing = this.timings.get(id);
+      const ran = !suite && outcome !== 'skipped';
+      if (ran) {
+        setPicotestDiagnostics(
+          this.workspaceFolder,
+          executable,
+          name,
+          failures
+        );
+      }
+      if (!suite) this.history.record(id, outcome);
+      listener.completed({
+        id,
+        suite,
+        outcome,
+        message,
+        failures: ran ? failures : [],
+        output: (ran && output) || [],
+        duration: timing && timing.duration,
+      });
+    };
+    const { repeat } = this.options;
+    const onEvent = (event: PicotestEvent) => {
+      if (!repeat) time(event);
+      if (report) report(event);
+      switch (event.hook) {
+        case 'FAILURE':
+          failures.push(event);
+          break;
+        case 'OUTPUT':
+          // Output is attributed to the current test case if any
+          if (output) output.push(event.text);
+          listener.output(event.text, !!output);
+          break;
+        case 'SUITE_ENTER':
+          listener.started(getTestId(executable, event.suiteName), true);
+          break;
+        case 'SUITE_LEAVE':
+          complete(
+            event.suiteName,
+            true,
+            event.fail ? 'failed' : 'passed',
+            event.fail ? `${event.fail} of ${event.nb} tests failed` : undefined
+          );
+          break;
+        case 'CASE_ENTER':
+          listener.started(getTestId(executable, event.testName), false);
+          failures = [];
+          output = [];
+          break;
+        case 'CASE_LEAVE':
+          complete(event.testName, false, event.fail ? 'failed' : 'passed');
+          output = undefined;
+          break;
+        case 'CASE_ERROR':
+          complete(event.testName, false, 'errored', event.message);
+          output = undefined;
+          break;
+        case 'CASE_SKIP':
+          complete(event.testName, false, 'skipped', event.message);
+          break;
+      }
+    };
+
+    // Repeated runs only show & report the kept iteration, but are timed as
+    // they come
+    let result: PicotestTestResult;
+    if (repeat) {
+      const repeatResult = await runPicotestRepeatedly(
+        executable,
+        tests,
+        options,
+        repeat,
+        onEvent,
+        time
+      );
+      const summary = formatPicotestRepeatResult(
+        executable,
+        tests,
+        repeat,
+        repeatResult
+      );
+      listener.output(`${summary}\n`, false);
+      if (repeatResult.failedIteration !== undefined) {
+        vscode.window.showWarningMessage(summary);
+      } else {
+        vscode.window.showInformationMessage(summary);
+      }
+      result = repeatResult.result;
+    } else {
+      result = await runPicotestSession(executable, tests, options, onEvent);
+    }
+    if (result.signal) {
+      this.log.warn(
+        `PicoTest process ${executable.command} crashed with signal ${result.signal}`
+      );
+    }
+  }
+
+  /**
+   * Complete the run: collect coverage, write reports, and save timings &
+   * history
+   *
+   * @param executables Executables that were run
+   *
+   * @return Coverage summary or error, if collecting coverage
+   */
+  async finish(executables: PicotestExecutable[]): Promise<string> {
+    let output = '';
+    if (this.options.coverage) {
+      try {
+        const coverage = await collectPicotestCoverage(this.workspaceFolder);
+        showPicotestCoverage(coverage);
+        output = formatPicotestCoverage(executables, coverage);
+      } catch (e) {
+        this.log.error('Error collecting PicoTest coverage', e.toString());
+        output = `${e}\n`;
+      }
+    }
+    if (this.reporter) {
+      try {
+        await this.reporter.write();
+      } catch (e) {
+        this.log.error('Error writing PicoTest reports', e.toString());
+      }
+    }
+    setLastRunTimings(this.workspaceFolder, this.timings);
+    try {
+      await this.history.save();
+    } catch (e) {
+      this.log.error('Error saving PicoTest test history', e.toString());
+    }
+    return output;
+  }
+}
@@ -4,6 +4,8 @@
 
 import * as child_process from 'child_process';
 import * as fs from 'fs';
+import { EventEmitter } from 'events';
+import { Readable, PassThrough } from 'stream';
 
 import { PicotestTestInfo } from './interfaces/picotest-test-info';
 import { PicotestTestProcess } from './interfaces/picotest-test-process';
@@ -11,6 +13,56 @@ import { PicotestTestResult } from './interfaces/picotest-test-result';
 
 const cj = require('concatjson');
 const { split } = require('split-cmd');
+const glob = require('glob');
+
+/**
+ * Comparison failure message formats with explicit labels or quoted values,
+ * e.g. `expected "abc", got "abd"`, `expected: 1, actual: 2`, or
+ * `Expected: 0x01 0x02` / `Actual: 0x01 0x03` on separate lines
+ */
+const COMPARISON_PATTERNS = [
+  /^\s*expected\s*:\s*(.*?)\s*\r?\n\s*(?:actual|got|was)\s*:\s*(.*?)\s*$/im,
+  /\bexpected\s*:?\s*("(?:[^"\\]|\\.)*")\s*[,;]?\s*(?:but\s+)?(?:got|was|actual)\s*:?\s*("(?:[^"\\]|\\.)*")/i,
+  /\bexpected\s*:\s*([^,;\n]*?)\s*[,;]\s*(?:actual|got)\s*:\s*(.*?)\s*$/im,
+];
+
+/** Recording files of a PicoTest process output */
+export interface PicotestRecording {
+  /** File to record the output to */
+  record?: string;
+
+  /** File to replay the output from instead of spawning the process */
+  replay?: string;
+}
+
+/**
+ * Find PicoTest executables matching a test command
+ *
+ * Commands that are not glob patterns are returned as is.
+ *
+ * @param command Test command/path or glob pattern
+ * @param cwd Directory to resolve relative patterns from
+ */
+export function findPicotestExecutables(
+  command: string,
+  cwd: string
+): Promise<string[]> {
+  return new Promise<string[]>((resolve, reject) => {
+    if (!glob.hasMagic(command)) {
+      resolve([command]);
+      return;
+    }
+
+    glob(
+      command,
+      { cwd, absolute: true, nodir: true },
+      (error: Error | null, files: string[]) => {
+        if (error) reject(error);
+        else resolve(files.sort());
+      }
+    );
+  });
+}
 
 /**
  * Load PicoTest test list
@@ -18,17 +70,23 @@ const { split } = require('split-cmd');
  * @param command Test command/path
  * @param cwd Directory to run the test within
  * @param loadArgs Arguments passed to test command at load time
+ * @param env Additional environment variables
+ * @param launcher Launcher command prefix (empty for none)
+ * @param recording Recording files (none by default)
  */
 export function loadPicotestTests(
   command: string,
   cwd: string,
-  loadArgs: string
+  loadArgs: string,
+  env: { [name: string]: string } = {},
+  launcher = '',
+  recording: PicotestRecording = {}
 ): Promise<PicotestTestInfo[]> {
   return new Promise<PicotestTestInfo[]>((resolve, reject) => {
     try {
       // Check that cwd directory exists
       // Note: statSync will throw an error if path doesn't exist
-      if (!fs.statSync(cwd).isDirectory()) {
+      if (!recording.replay && !fs.statSync(cwd).isDirectory()) {
         throw new Error(`Directory '${cwd}' does not exist`);
       }
 
@@ -36,7 +94,15 @@ export function loadPicotestTests(
       const args = split(loadArgs);
 
       // Execute the test command to get the test list in JSON format
-      const testProcess = child_process.spawn(command, args, { cwd });
+      const testProcess = startPicotestProcess(
+        command,
+        args,
+        cwd,
+        env,
+        launcher,
+        recording,
+        'w'
+      );
       if (!testProcess.pid) {
         // Something failed, e.g. the executable or cwd doesn't exist
         throw new Error(`Cannot spawn command '${command}'`);
@@ -66,19 +132,31 @@ export function loadPicotestTests(
  * @param cwd Directory to run the test within
  * @param tests Tests to run (empty for all)
  * @param runArgs Arguments passed to test command at run time
+ * @param env Additional environment variables
+ * @param launcher Launcher command prefix (empty for none)
+ * @param recording Recording files (none by default)
  */
 export function schedulePicotestTestProcess(
   command: string,
   cwd: string,
   tests: string[],
-  runArgs: string
+  runArgs: string,
+  env: { [name: string]: string } = {},
+  launcher = '',
+  recording: PicotestRecording = {}
 ): PicotestTestProcess {
   // Split args string into array for spawn
   const args = split(runArgs);
 
-  const testProcess = child_process.spawn(command, [...args, ...tests], {
+  const testProcess = startPicotestProcess(
+    command,
+    [...args, ...tests],
     cwd,
-  });
+    env,
+    launcher,
+    recording,
+    'a'
+  );
   if (!testProcess.pid) {
     // Something failed, e.g. the executable or cwd doesn't exist
     throw new Error(`Cannot run tests ${JSON.stringify(tests)}`);
@@ -87,28 +165,164 @@ export function schedulePicotestTestProcess(
   return testProcess;
 }
 
+/**
+ * Start a PicoTest process, or replay its recorded output
+ *
+ * The process output is recorded once complete so that concurrent processes
+ * don't interleave in the same recording file.
+ *
+ * @param command Test command/path
+ * @param args Arguments passed to test command
+ * @param cwd Directory to run the test within
+ * @param env Additional environment variables
+ * @param launcher Launcher command prefix (empty for none)
+ * @param recording Recording files
+ * @param recordFlag File system flag of the recording file (`w` or `a`)
+ */
+function startPicotestProcess(
+  command: string,
+  args: string[],
+  cwd: string,
+  env: { [name: string]: string },
+  launcher: string,
+  recording: PicotestRecording,
+  recordFlag: string
+) {
+  const testProcess = recording.replay
+    ? replayPicotestProcess(recording.replay)
+    : spawnPicotestProcess(command, args, cwd, env, launcher);
+  const { record } = recording;
+  if (record) {
+    // Chunks are strings once the stream has an encoding
+    const chunks: Buffer[] = [];
+    testProcess.stdout.on('data', (chunk: Buffer | string) =>
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+    );
+    testProcess.stdout.on('end', () =>
+      fs.writeFileSync(record, Buffer.concat(chunks), { flag: recordFlag })
+    );
+  }
+  return testProcess;
+}
+
+/**
+ * Spawn a PicoTest process, possibly through a launcher
+ *
+ * @param command Test command/path
+ * @param args Arguments passed to test command
+ * @param cwd Directory to run the test within
+ * @param env Additional environment variables
+ * @param launcher Launcher command prefix (empty for none)
+ */
+function spawnPicotestProcess(
+  command: string,
+  args: string[],
+  cwd: string,
+  env: { [name: string]: string },
+  launcher: string
+) {
+  const [launcherCommand, ...launcherArgs] = split(launcher);
+  const options = { cwd, env: { ...process.env, ...env } };
+  return launcherCommand
+    ? child_process.spawn(
+        launcherCommand,
+        [...launcherArgs, command, ...args],
+        options
+      )
+    : child_process.spawn(command, args, options);
+}
+
+/**
+ * Replay the recorded output of a PicoTest process
+ *
+ * The returned object mimics a process that prints the recording on stdout
+ * then exits with code 0, or with the kill signal if killed before.
+ *
+ * @param file Recording file
+ *
+ * @throws Error if the recording file doesn't exist
+ */
+function replayPicotestProcess(file: string): PicotestTestProcess {
+  if (!fs.statSync(file).isFile()) {
+    throw new Error(`Recording '${file}' is not a file`);
+  }
+  const stdout = fs.createReadStream(file);
+  const stderr = new PassThrough();
+  stderr.end();
+  let signal: string | null = null;
+  const replay = Object.assign(new EventEmitter(), {
+    pid: process.pid,
+    stdin: new PassThrough(),
+    stdout,
+    stderr,
+    kill: (killSignal = 'SIGTERM') => {
+      signal = killSignal;
+      stdout.destroy();
+      return true;
+    },
+  });
+  stdout.once('close', () => replay.emit('close', signal ? null : 0, signal));
+  return <PicotestTestProcess>(<unknown>replay);
+}
+
 /**
  * Execute a previously scheduled PicoTest test process
  *
  * @param testProcess Scheduled test process
  * @param onEvent Event callback
+ * @param getTimeout Get timeout in ms of a test case (0 for none)
  */
 export function executePicotestTestProcess(
   testProcess: PicotestTestProcess,
-  onEvent: (event: PicotestEvent) => void
+  onEvent: (event: PicotestEvent) => void,
+  getTimeout?: (testName: string) => number
 ): Promise<PicotestTestResult> {
   return new Promise<PicotestTestResult>((resolve, reject) => {
     try {
-      // Capture result on stdout
-      testProcess.stdout
-        .pipe(cj.parse())
-        .on('data', (data: any) => onEvent(data as PicotestEvent));
+      // Test cases are timed from CASE_ENTER to CASE_LEAVE; the process is
+      // killed when a case exceeds its timeout
+      let timer: NodeJS.Timer | undefined;
+      let timedOut: PicotestTestResult['timedOut'];
+      const stopTimer = () => {
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+      };
+      const startTimer = (testName: string) => {
+        stopTimer();
+        const timeout = getTimeout ? getTimeout(testName) : 0;
+        if (timeout <= 0) return;
+        timer = setTimeout(() => {
+          timedOut = { testName, timeout };
+          testProcess.kill('SIGKILL');
+        }, timeout);
+      };
+
+      // Capture result on stdout, along with any other output
+      parseJsonObjects(
+        testProcess.stdout,
+        (data: any) => {
+          const event = data as PicotestEvent;
+          if (event.hook === 'CASE_ENTER') startTimer(event.testName);
+          else if (event.hook === 'CASE_LEAVE') stopTimer();
+          onEvent(event);
+        },
+        (text: string) => onEvent({ hook: 'OUTPUT', stream: 'stdout', text }),
+        (data: any) => !!data && typeof data.hook === 'string'
+      );
+      testProcess.stderr.setEncoding('utf8');
+      testProcess.stderr.on('data', (text: string) =>
+        onEvent({ hook: 'OUTPUT', stream: 'stderr', text })
+      );
 
-      // The 'exit' event is always sent even if the child process crashes or is
-      // killed so we can safely resolve/reject the promise from there
-      testProcess.once('exit', (code) => {
+      // The 'close' event is always sent even if the child process crashes or
+      // is killed so we can safely resolve/reject the promise from there. Unlike
+      // 'exit', it is sent once stdout is fully consumed
+      testProcess.once('close', (code, signal) => {
+        stopTimer();
         const result: PicotestTestResult = {
           code,
+          signal,
+          timedOut,
         };
         resolve(result);
       });
@@ -127,13 +341,213 @@ export function cancelPicotestTestProcess(testProcess: PicotestTestProcess) {
   testProcess.kill();
 }
 
+/**
+ * Parse concatenated JSON objects from a stream
+ *
+ * Unlike concatjson, which only emits an object once the next one begins,
+ * objects are emitted as soon as they are complete so that we know in real
+ * time which test case is running. PicoTest prints each object on a single
+ * line, possibly after printed text with no trailing newline. A candidate
+ * object that spans lines, doesn't parse or isn't accepted, e.g. from a stray
+ * brace in printed text, is passed to a separate callback up to its opening
+ * brace, and parsing resumes after it.
+ *
+ * @param stream Stream to parse
+ * @param onObject Object callback
+ * @param onText Text callback
+ * @param isObject Check whether a parsed object is accepted (all by default)
+ */
+export function parseJsonObjects(
+  stream: Readable,
+  onObject: (data: any) => void,
+  onText: (text: string) => void,
+  isObject: (data: any) => boolean = () => true
+) {
+  let buffer = '';
+  let text = '';
+  let textAfterObject = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  const flushText = () => {
+    // Skip blank text and newline following the previous object
+    if (text.trim()) {
+      onText(textAfterObject ? text.replace(/^\r?\n/, '') : text);
+    }
+    if (text) textAfterObject = false;
+    text = '';
+  };
+  const resync = (rest: string) => {
+    // Not an object: keep its opening brace as text and parse the rest again
+    text += buffer[0];
+    const input = buffer.substr(1) + rest;
+    buffer = '';
+    depth = 0;
+    inString = false;
+    escaped = false;
+    return input;
+  };
+  const parse = (input: string) => {
+    for (let i = 0; i < input.length; i++) {
+      const c = input[i];
+      if (depth == 0) {
+        if (c !== '{') {
+          text += c;
+          continue;
+        }
+        flushText();
+        buffer = '';
+      }
+      if (c === '\n') {
+        // Line ends inside a candidate object
+        return resync(input.substr(i));
+      }
+      buffer += c;
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === '\\') escaped = true;
+        else if (c === '"') inString = false;
+      } else if (c === '"') {
+        inString = true;
+      } else if (c === '{') {
+        depth++;
+      } else if (c === '}' && --depth == 0) {
+        let data;
+        try {
+          data = JSON.parse(buffer);
+        } catch (e) {
+          // Malformed object, e.g. braces in printed text
+          return resync(input.substr(i + 1));
+        }
+        if (!isObject(data)) return resync(input.substr(i + 1));
+        textAfterObject = true;
+        onObject(data);
+      }
+    }
+    return '';
+  };
+  stream.setEncoding('utf8');
+  stream.on('data', (chunk: string) => {
+    for (let input = chunk; input; input = parse(input));
+    if (depth == 0) flushText();
+  });
+  stream.on('end', () => {
+    // Incomplete object
+    while (depth) {
+      for (let input = resync(''); input; input = parse(input));
+    }
+    flushText();
+  });
+}
+
+/**
+ * Format PicoTest error message from failure event
+ *
+ * @param event PicoTest failure event
+ */
+export function getPicotestErrorMessage(event: PicotestFailureEvent) {
+  return event.msg
+    ? `[${event.type}] ${event.test} | ${event.msg}`
+    : `[${event.type}] ${event.test}`;
+}
+
+/** Expected & actual values of a comparison failure */
+export interface PicotestComparison {
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Get expected & actual values from a comparison failure event
+ *
+ * Quoted string values are unquoted.
+ *
+ * @param event PicoTest failure event
+ *
+ * @return Compared values (undefined if the message has no known format)
+ */
+export function getPicotestComparison(
+  event: PicotestFailureEvent
+): PicotestComparison | undefined {
+  if (!event.msg) return undefined;
+  for (const pattern of COMPARISON_PATTERNS) {
+    const match = event.msg.match(pattern);
+    if (match) {
+      return { expected: unquote(match[1]), actual: unquote(match[2]) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Format comparison as a line diff
+ *
+ * Differing lines are prefixed with `-` (expected) and `+` (actual), and
+ * single-line values get a marker under the first differing character.
+ *
+ * @param comparison Compared values
+ */
+export function formatPicotestComparison({
+  expected,
+  actual,
+}: PicotestComparison) {
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  if (expectedLines.length == 1 && actualLines.length == 1) {
+    let column = 0;
+    while (column < expected.length && expected[column] === actual[column]) {
+      column++;
+    }
+    return [
+      `  Expected: ${expected}`,
+      `  Actual:   ${actual}`,
+      `            ${' '.repeat(column)}^`,
+    ].join('\n');
+  }
+  const lines = [];
+  for (let i = 0; i < Math.max(expectedLines.length, actualLines.length); i++) {
+    if (expectedLines[i] === actualLines[i]) {
+      lines.push(`  ${expectedLines[i]}`);
+      continue;
+    }
+    if (i < expectedLines.length) lines.push(`- ${expectedLines[i]}`);
+    if (i < actualLines.length) lines.push(`+ ${actualLines[i]}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Remove quotes & escapes from a quoted string value
+ *
+ * @param value Value, possibly quoted
+ */
+function unquote(value: string) {
+  const match = value.match(/^"((?:[^"\\]|\\.)*)"$/);
+  if (!match) return value;
+  return match[1].replace(/\\(.)/g, (escape, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 't':
+        return '\t';
+      default:
+        return char;
+    }
+  });
+}
+
 /** Generic test event */
 export type PicotestEvent =
   | PicotestFailureEvent
   | PicotestSuiteEnterEvent
   | PicotestSuiteLeaveEvent
   | PicotestCaseEnterEvent
-  | PicotestCaseLeaveEvent;
+  | PicotestCaseLeaveEvent
+  | PicotestCaseErrorEvent
+  | PicotestCaseSkipEvent
+  | PicotestOutputEvent;
 
 /** Failure event */
 export interface PicotestFailureEvent {
@@ -172,3 +586,39 @@ export interface PicotestCaseLeaveEvent {
   testName: string;
   fail: number;
 }
+
+/**
+ * Test case error event
+ *
+ * This event is not sent by PicoTest but generated by the adapter when a test
+ * case cannot complete, e.g. on timeout
+ */
+export interface PicotestCaseErrorEvent {
+  hook: 'CASE_ERROR';
+  testName: string;
+  message: string;
+}
+
+/**
+ * Test case skip event
+ *
+ * This event is not sent by PicoTest but generated by the adapter for test
+ * cases that could not be reached, e.g. after a crash
+ */
+export interface PicotestCaseSkipEvent {
+  hook: 'CASE_SKIP';
+  testName: string;
+  message: string;
+}
+
+/**
+ * Output event
+ *
+ * This event is not sent by PicoTest but generated by the adapter for any
+ * text printed by the test process outside PicoTest events
+ */
+export interface PicotestOutputEvent {
+  hook: 'OUTPUT';
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
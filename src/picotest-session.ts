@@ -0,0 +1,344 @@
+/**
+ * @file PicoTest test sessions
+ *
+ * A session runs a set of tests from a single executable, possibly across
+ * several processes when a test process has to be killed.
+ */
+
+import * as path from 'path';
+
+import { PicotestTestProcess } from './interfaces/picotest-test-process';
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import { PicotestTestResult } from './interfaces/picotest-test-result';
+import {
+  schedulePicotestTestProcess,
+  executePicotestTestProcess,
+  PicotestEvent,
+  PicotestSuiteEnterEvent,
+  PicotestCaseLeaveEvent,
+  PicotestFailureEvent,
+} from './picotest-runner';
+import {
+  getPicotestCases,
+  getTestPath,
+  getTestName,
+  getPicotestRecording,
+} from './picotest-executables';
+import { mapPicotestPath } from './picotest-paths';
+import {
+  PicotestMemcheckError,
+  getMemcheckXmlFile,
+  getMemcheckLauncher,
+  readMemcheckErrors,
+  formatMemcheckError,
+} from './picotest-memcheck';
+
+/** Number of stderr lines to report when a test crashes */
+const STDERR_TAIL_LINES = 10;
+
+/** Test session options */
+export interface PicotestSessionOptions {
+  /** Get timeout in ms of a test case from its PicoTest name (0 for none) */
+  getTimeout?: (testName: string) => number;
+
+  /** Called when a test process is spawned */
+  onSpawn?: (testProcess: PicotestTestProcess) => void;
+
+  /** Called when a test process exits */
+  onExit?: (testProcess: PicotestTestProcess) => void;
+
+  /** Check whether the session was cancelled */
+  isCancelled?: () => boolean;
+
+  /** Valgrind command line to run test cases under memcheck, if any */
+  memcheckCommand?: string;
+
+  /** Workspace path, memcheck errors are located on its innermost frames */
+  workspacePath?: string;
+}
+
+/**
+ * Run a PicoTest test session
+ *
+ * When a test case times out, it gets a CASE_ERROR event and the session
+ * restarts from the next test case. When the test process crashes or exits
+ * prematurely, the running test case gets a CASE_ERROR event and the
+ * remaining ones get CASE_SKIP events. Suites interrupted that way get a
+ * SUITE_LEAVE event at the end of the session.
+ *
+ * Test processes are given PicoTest test names, the names in their events
+ * are mapped back to test paths.
+ *
+ * In memcheck mode, each test case runs in its own process so that memcheck
+ * errors, including leaks reported at exit, can be attributed to it. They
+ * are reported as FAILURE events before the CASE_LEAVE event of the case.
+ *
+ * @param executable Executable to run
+ * @param tests Test paths (empty for all)
+ * @param options Session options
+ * @param onEvent Event callback
+ *
+ * @throws Error if memcheck is requested for an executable with a launcher
+ */
+export async function runPicotestSession(
+  executable: PicotestExecutable,
+  tests: string[],
+  options: PicotestSessionOptions,
+  onEvent: (event: PicotestEvent) => void
+): Promise<PicotestTestResult> {
+  const {
+    getTimeout,
+    onSpawn,
+    onExit,
+    isCancelled,
+    memcheckCommand,
+    workspacePath,
+  } = options;
+  if (memcheckCommand && executable.launcher) {
+    // Memcheck XML files are written where the launcher runs the process,
+    // not where they are read back
+    throw new Error(
+      `Cannot run ${executable.command} under memcheck with launcher ${executable.launcher}`
+    );
+  }
+  const entered = new Set<string>();
+  let currentCase: string | undefined;
+  let stderr = '';
+  const openSuites: (PicotestSuiteEnterEvent & { fail: number })[] = [];
+  const interruptedSuites: typeof openSuites = [];
+  const onSessionEvent = (event: PicotestEvent) => {
+    switch (event.hook) {
+      case 'SUITE_ENTER':
+        openSuites.push({ ...event, fail: 0 });
+        break;
+      case 'SUITE_LEAVE':
+        openSuites.pop();
+        break;
+      case 'CASE_ENTER':
+        entered.add(event.testName);
+        currentCase = event.testName;
+        stderr = '';
+        break;
+      case 'CASE_LEAVE':
+      case 'CASE_ERROR':
+        currentCase = undefined;
+        if (event.hook === 'CASE_ERROR' || event.fail) {
+          for (const suite of [...openSuites, ...interruptedSuites]) {
+            suite.fail++;
+          }
+        }
+        break;
+      case 'OUTPUT':
+        if (event.stream === 'stderr') stderr = getTail(stderr + event.text);
+        break;
+    }
+    onEvent(event);
+  };
+
+  // PicoTest events only give test names. Top-level ones are matched against
+  // the tests passed to the process, nested ones are relative to the
+  // innermost open suite
+  let topLevelTests: string[] = [];
+  const getEventTestPath = (name: string) => {
+    if (openSuites.length) {
+      return getTestPath(openSuites[openSuites.length - 1].suiteName, name);
+    }
+    const index = topLevelTests.findIndex(
+      (testPath) => getTestName(testPath) === name
+    );
+    if (index < 0) return name;
+    return topLevelTests.splice(0, index + 1)[index];
+  };
+  const onProcessEvent = (event: PicotestEvent) => {
+    switch (event.hook) {
+      case 'FAILURE':
+        onSessionEvent({
+          ...event,
+          file: mapPicotestPath(executable, event.file),
+        });
+        break;
+      case 'SUITE_ENTER':
+        onSessionEvent({
+          ...event,
+          suiteName: getEventTestPath(event.suiteName),
+        });
+        break;
+      case 'SUITE_LEAVE':
+        onSessionEvent({
+          ...event,
+          suiteName: openSuites.length
+            ? openSuites[openSuites.length - 1].suiteName
+            : event.suiteName,
+        });
+        break;
+      case 'CASE_ENTER':
+        onSessionEvent({
+          ...event,
+          testName: getEventTestPath(event.testName),
+        });
+        break;
+      case 'CASE_LEAVE': {
+        const leaveEvent = {
+          ...event,
+          testName: currentCase !== undefined ? currentCase : event.testName,
+        };
+        // Memcheck errors are only known once the process exits
+        if (memcheckCommand) pendingLeave = leaveEvent;
+        else onSessionEvent(leaveEvent);
+        break;
+      }
+      default:
+        onSessionEvent(event);
+    }
+  };
+
+  // Report memcheck errors of the case run by the last process
+  let pendingLeave: PicotestCaseLeaveEvent | undefined;
+  const reportMemcheckErrors = (testName: string, xmlFile: string) => {
+    const errors = readMemcheckErrors(xmlFile);
+    for (const error of errors) {
+      onSessionEvent(
+        toFailureEvent(executable, error, testName, workspacePath)
+      );
+    }
+    if (pendingLeave) {
+      onSessionEvent({
+        ...pendingLeave,
+        fail: pendingLeave.fail + errors.length,
+      });
+      pendingLeave = undefined;
+    }
+  };
+
+  // Report crashed case and skip remaining ones (unless cases are run in
+  // isolation)
+  const reportCrash = ({ code, signal }: PicotestTestResult) => {
+    interruptedSuites.unshift(...openSuites.splice(0));
+    const reason = signal
+      ? `Test process crashed with signal ${signal}`
+      : `Test process exited prematurely with code ${code}`;
+    if (currentCase !== undefined) {
+      onSessionEvent({
+        hook: 'CASE_ERROR',
+        testName: currentCase,
+        message: stderr ? `${reason}\n\n${stderr}` : reason,
+      });
+    }
+    if (memcheckCommand) return;
+    for (const testName of getPicotestCases(executable, tests)) {
+      if (entered.has(testName)) continue;
+      onSessionEvent({ hook: 'CASE_SKIP', testName, message: reason });
+    }
+  };
+
+  let remaining = memcheckCommand ? getPicotestCases(executable, tests) : tests;
+  let result: PicotestTestResult;
+  for (;;) {
+    const processTests = memcheckCommand ? remaining.slice(0, 1) : remaining;
+    topLevelTests = processTests.length
+      ? [...processTests]
+      : executable.tests.map((test) => test.name);
+    const xmlFile = memcheckCommand ? getMemcheckXmlFile() : '';
+    const testProcess = schedulePicotestTestProcess(
+      executable.command,
+      executable.cwd,
+      processTests.map(getTestName),
+      executable.runArgs,
+      executable.env,
+      memcheckCommand
+        ? getMemcheckLauncher(memcheckCommand, xmlFile)
+        : executable.launcher,
+      getPicotestRecording(executable, 'run')
+    );
+    if (onSpawn) onSpawn(testProcess);
+    try {
+      result = await executePicotestTestProcess(
+        testProcess,
+        onProcessEvent,
+        getTimeout
+      );
+    } finally {
+      if (onExit) onExit(testProcess);
+    }
+    if (memcheckCommand) {
+      reportMemcheckErrors(processTests[0], xmlFile);
+      entered.add(processTests[0]);
+    }
+    if (isCancelled && isCancelled()) break;
+    if (!result.timedOut) {
+      if (currentCase !== undefined || result.signal) {
+        reportCrash(result);
+      }
+      if (!memcheckCommand) break;
+    } else {
+      // Report timed out case and restart from the next one
+      const { testName, timeout } = result.timedOut;
+      interruptedSuites.unshift(...openSuites.splice(0));
+      onSessionEvent({
+        hook: 'CASE_ERROR',
+        testName: currentCase !== undefined ? currentCase : testName,
+        message: `Test timed out after ${timeout} ms`,
+      });
+    }
+    remaining = getPicotestCases(executable, tests).filter(
+      (name) => !entered.has(name)
+    );
+    if (!remaining.length) break;
+  }
+
+  // Close suites interrupted by restarts or crashes, innermost first
+  for (const { suiteName, nb, fail } of interruptedSuites.reverse()) {
+    onEvent({ hook: 'SUITE_LEAVE', suiteName, nb, fail });
+  }
+  return result;
+}
+
+/**
+ * Convert memcheck error to failure event
+ *
+ * The error is located on the innermost stack frame within the workspace,
+ * or else the innermost one with a source file.
+ *
+ * @param executable Executable the error comes from
+ * @param error Memcheck error
+ * @param testName Test path of the case the error belongs to
+ * @param workspacePath Workspace path
+ */
+function toFailureEvent(
+  executable: PicotestExecutable,
+  error: PicotestMemcheckError,
+  testName: string,
+  workspacePath?: string
+): PicotestFailureEvent {
+  const stack = error.stack.map((frame) =>
+    frame.file
+      ? { ...frame, file: mapPicotestPath(executable, frame.file) }
+      : frame
+  );
+  const isInWorkspace = (file: string) =>
+    !!workspacePath && !path.relative(workspacePath, file).startsWith('..');
+  const sourceFrames = stack.filter((frame) => frame.file);
+  const frame =
+    sourceFrames.find((frame) => isInWorkspace(frame.file || '')) ||
+    sourceFrames[0];
+  return {
+    hook: 'FAILURE',
+    file: frame && frame.file ? frame.file : executable.command,
+    line: frame && frame.line ? frame.line : 1,
+    type: error.kind,
+    test: getTestName(testName),
+    msg: formatMemcheckError({ ...error, stack }),
+  };
+}
+
+/**
+ * Get last lines of text
+ *
+ * @param text Text
+ */
+function getTail(text: string) {
+  return text
+    .split('\n')
+    .slice(-STDERR_TAIL_LINES - 1)
+    .join('\n');
+}
@@ -0,0 +1,177 @@
+/**
+ * @file Parallel test execution
+ */
+
+import { PicotestTestInfo } from './interfaces/picotest-test-info';
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import {
+  PicotestTestRef,
+  findPicotestTest,
+  getTestPath,
+} from './picotest-executables';
+
+/** Tests run by a single PicoTest process */
+export interface PicotestShard {
+  /** Executable to run */
+  executable: PicotestExecutable;
+
+  /** Test paths (empty for all) */
+  tests: string[];
+}
+
+/** Unit of work that can be assigned to a shard */
+interface PicotestShardUnit {
+  executable: PicotestExecutable;
+  name: string;
+
+  /** Test info (undefined if unknown) */
+  test?: PicotestTestInfo;
+
+  /** Number of test cases */
+  size: number;
+}
+
+/**
+ * Split tests into shards
+ *
+ * Suites are split into their subtests until there are enough units of work
+ * to fill all shards. Split suites won't get any SUITE_ENTER/SUITE_LEAVE
+ * event, so they are returned separately for the caller to report.
+ *
+ * @param groups Executable to test name map (empty names for all)
+ * @param maxShards Maximum number of shards
+ *
+ * @return Shards & split suites
+ */
+export function shardTests(
+  groups: Map<PicotestExecutable, string[]>,
+  maxShards: number
+): { shards: PicotestShard[]; splitSuites: Required<PicotestTestRef>[] } {
+  const shards: PicotestShard[] = [];
+  const splitSuites: Required<PicotestTestRef>[] = [];
+  if (maxShards <= 1) {
+    groups.forEach((tests, executable) => shards.push({ executable, tests }));
+    return { shards, splitSuites };
+  }
+
+  // Expand groups into units
+  const units: PicotestShardUnit[] = [];
+  groups.forEach((names, executable) => {
+    if (names.length) {
+      for (const name of names) {
+        const test = findPicotestTest(executable.tests, name);
+        units.push({ executable, name, test, size: countCases(test) });
+      }
+    } else {
+      for (const test of executable.tests) {
+        units.push({
+          executable,
+          name: test.name,
+          test,
+          size: countCases(test),
+        });
+      }
+    }
+  });
+
+  // Split largest suites until there are enough units
+  while (units.length < maxShards) {
+    let largest = -1;
+    units.forEach((unit, index) => {
+      if (
+        unit.test &&
+        unit.test.subtests &&
+        unit.test.subtests.length &&
+        (largest < 0 || unit.size > units[largest].size)
+      ) {
+        largest = index;
+      }
+    });
+    if (largest < 0) break;
+
+    const { executable, name, test } = units[largest];
+    const subtests = (test && test.subtests) || [];
+    units.splice(
+      largest,
+      1,
+      ...subtests.map((subtest) => ({
+        executable,
+        name: getTestPath(name, subtest.name),
+        test: subtest,
+        size: countCases(subtest),
+      }))
+    );
+    splitSuites.push({ executable, name });
+  }
+
+  // Assign largest units first to the least loaded shard of the same
+  // executable
+  const loads: number[] = [];
+  units.sort((a, b) => b.size - a.size);
+  for (const unit of units) {
+    let target = -1;
+    if (shards.length >= maxShards) {
+      shards.forEach((shard, index) => {
+        if (
+          shard.executable === unit.executable &&
+          (target < 0 || loads[index] < loads[target])
+        ) {
+          target = index;
+        }
+      });
+    }
+    if (target < 0) {
+      shards.push({ executable: unit.executable, tests: [] });
+      loads.push(0);
+      target = shards.length - 1;
+    }
+    shards[target].tests.push(unit.name);
+    loads[target] += unit.size;
+  }
+  return { shards, splitSuites };
+}
+
+/**
+ * Run shards concurrently
+ *
+ * A failing shard doesn't stop the other ones; the first error is rethrown
+ * once all shards are done.
+ *
+ * @param shards Shards to run
+ * @param maxProcesses Maximum number of concurrent processes
+ * @param runShard Shard runner
+ */
+export async function runShards(
+  shards: PicotestShard[],
+  maxProcesses: number,
+  runShard: (shard: PicotestShard) => Promise<void>
+) {
+  const queue = [...shards];
+  let error: Error | undefined;
+  const worker = async () => {
+    for (let shard = queue.shift(); shard; shard = queue.shift()) {
+      try {
+        await runShard(shard);
+      } catch (e) {
+        if (!error) error = e;
+      }
+    }
+  };
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.max(1, maxProcesses) && i < shards.length; i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+  if (error) throw error;
+}
+
+/**
+ * Count test cases of a PicoTest test
+ *
+ * @param test Test info (undefined counts as a single case)
+ */
+function countCases(test?: PicotestTestInfo): number {
+  return test && test.subtests
+    ? test.subtests.reduce((count, subtest) => count + countCases(subtest), 0)
+    : 1;
+}
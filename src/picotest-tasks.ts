@@ -0,0 +1,82 @@
+/**
+ * @file VS Code task integration
+ */
+
+import * as vscode from 'vscode';
+
+import { getConfigStrings } from './picotest-config';
+
+/**
+ * Run the pre-launch task from the settings & wait for its completion
+ *
+ * @param workspaceFolder Workspace folder
+ *
+ * @return Whether a task was run
+ *
+ * @throws Error if the task cannot be found or fails
+ */
+export async function runPicotestPreLaunchTask(
+  workspaceFolder: vscode.WorkspaceFolder
+): Promise<boolean> {
+  const [preLaunchTask] = getConfigStrings(workspaceFolder, ['preLaunchTask']);
+  if (!preLaunchTask) return false;
+
+  const task = await findTask(workspaceFolder, preLaunchTask);
+  if (!task) {
+    throw new Error(`Cannot find pre-launch task '${preLaunchTask}'`);
+  }
+
+  const exitCode = await executeTask(task);
+  if (exitCode) {
+    throw new Error(
+      `Pre-launch task '${preLaunchTask}' failed with exit code ${exitCode}`
+    );
+  }
+  return true;
+}
+
+/**
+ * Find task by name
+ *
+ * Tasks can be referred to by their name or their `<source>: <name>` label,
+ * tasks of the workspace folder take precedence.
+ *
+ * @param workspaceFolder Workspace folder
+ * @param name Task name or label
+ */
+async function findTask(
+  workspaceFolder: vscode.WorkspaceFolder,
+  name: string
+): Promise<vscode.Task | undefined> {
+  const tasks = (await vscode.tasks.fetchTasks()).filter(
+    (task) => task.name === name || `${task.source}: ${task.name}` === name
+  );
+  const isFolderTask = (task: vscode.Task) =>
+    typeof task.scope === 'object' &&
+    task.scope.uri.toString() === workspaceFolder.uri.toString();
+  return tasks.find(isFolderTask) || tasks[0];
+}
+
+/**
+ * Execute task & wait for its completion
+ *
+ * @param task Task to execute
+ *
+ * @return Process exit code (undefined for non-process tasks)
+ */
+async function executeTask(task: vscode.Task): Promise<number | undefined> {
+  const execution = await vscode.tasks.executeTask(task);
+  return new Promise<number | undefined>((resolve) => {
+    let exitCode: number | undefined;
+    const listeners = [
+      vscode.tasks.onDidEndTaskProcess((e) => {
+        if (e.execution === execution) exitCode = e.exitCode;
+      }),
+      vscode.tasks.onDidEndTask((e) => {
+        if (e.execution !== execution) return;
+        for (const listener of listeners) listener.dispose();
+        resolve(exitCode);
+      }),
+    ];
+  });
+}
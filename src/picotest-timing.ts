@@ -0,0 +1,214 @@
+/**
+ * @file Test timing & slowest tests report
+ */
+
+import * as vscode from 'vscode';
+
+import { PicotestExecutable } from './interfaces/picotest-executable';
+import { PicotestEvent } from './picotest-runner';
+import { CONFIGURATION_SCOPE } from './picotest-config';
+import { getTestId } from './picotest-executables';
+
+/** Duration of a test case or suite */
+export interface PicotestTestTiming {
+  /** Test ID */
+  id: string;
+
+  /** Whether the test is a suite */
+  suite: boolean;
+
+  /** Duration in ms */
+  duration: number;
+}
+
+/** Timings of the last run per workspace folder URI */
+const lastRunTimings = new Map<
+  string,
+  { workspaceFolder: vscode.WorkspaceFolder; timings: PicotestTimings }
+>();
+
+/**
+ * Test timings of a run
+ */
+export class PicotestTimings {
+  /** Test ID to timing map */
+  private readonly timings = new Map<string, PicotestTestTiming>();
+
+  /**
+   * Create event listener timing the tests of an executable
+   *
+   * Cases & suites are timed from their ENTER event to their LEAVE or ERROR
+   * event.
+   *
+   * @param executable Executable to time
+   */
+  createListener(executable: PicotestExecutable) {
+    const starts = new Map<string, number>();
+    const stop = (name: string, suite: boolean) => {
+      const start = starts.get(name);
+      if (start === undefined) return;
+      starts.delete(name);
+      const id = getTestId(executable, name);
+      this.timings.set(id, { id, suite, duration: Date.now() - start });
+    };
+    return (event: PicotestEvent) => {
+      switch (event.hook) {
+        case 'SUITE_ENTER':
+          starts.set(event.suiteName, Date.now());
+          break;
+        case 'SUITE_LEAVE':
+          stop(event.suiteName, true);
+          break;
+        case 'CASE_ENTER':
+          starts.set(event.testName, Date.now());
+          break;
+        case 'CASE_LEAVE':
+        case 'CASE_ERROR':
+          stop(event.testName, false);
+          break;
+      }
+    };
+  }
+
+  /**
+   * Get test timing
+   *
+   * @param id Test ID
+   */
+  get(id: string) {
+    return this.timings.get(id);
+  }
+
+  /**
+   * Get all timings, slowest first
+   */
+  getSlowest() {
+    return [...this.timings.values()].sort((a, b) => b.duration - a.duration);
+  }
+}
+
+/**
+ * Timing-related initialization
+ *
+ * @param context Extension context
+ */
+export function initPicotestTiming(context: vscode.ExtensionContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'picotestExplorer.showSlowestTests',
+      showSlowestTests
+    )
+  );
+}
+
+/**
+ * Remember timings of the last run for the slowest tests report
+ *
+ * @param workspaceFolder Workspace folder
+ * @param timings Test timings
+ */
+export function setLastRunTimings(
+  workspaceFolder: vscode.WorkspaceFolder,
+  timings: PicotestTimings
+) {
+  lastRunTimings.set(workspaceFolder.uri.toString(), {
+    workspaceFolder,
+    timings,
+  });
+}
+
+/**
+ * Add test duration to description & tooltip
+ *
+ * @param info Test description & tooltip
+ * @param timing Test timing
+ */
+export function withDuration(
+  info: { description?: string; tooltip?: string },
+  timing?: PicotestTestTiming
+): { description?: string; tooltip?: string } {
+  if (!timing) return info;
+  const duration = formatDuration(timing.duration);
+  return {
+    description: info.description
+      ? `${duration}, ${info.description}`
+      : duration,
+    tooltip: info.tooltip
+      ? `${info.tooltip}\nLast run duration: ${duration}`
+      : `Last run duration: ${duration}`,
+  };
+}
+
+/**
+ * Format duration for display
+ *
+ * @param duration Duration in ms
+ */
+export function formatDuration(duration: number) {
+  if (duration < 1000) return `${duration} ms`;
+  if (duration < 60000) return `${(duration / 1000).toFixed(1)} s`;
+  const minutes = Math.floor(duration / 60000);
+  const seconds = Math.round((duration % 60000) / 1000);
+  return `${minutes} min ${seconds} s`;
+}
+
+/**
+ * Show the slowest cases & suites of the last run as a Markdown document
+ */
+async function showSlowestTests() {
+  const count =
+    vscode.workspace
+      .getConfiguration(CONFIGURATION_SCOPE)
+      .get<number>('slowestTestsCount') || 10;
+  const runs = [...lastRunTimings.values()];
+  if (!runs.length) {
+    vscode.window.showInformationMessage('No PicoTest run timings yet');
+    return;
+  }
+
+  const multiRoot = runs.length > 1;
+  const timings = runs
+    .reduce(
+      (timings, { workspaceFolder, timings: runTimings }) =>
+        timings.concat(
+          runTimings
+            .getSlowest()
+            .map((timing) => ({ ...timing, folder: workspaceFolder.name }))
+        ),
+      [] as (PicotestTestTiming & { folder: string })[]
+    )
+    .sort((a, b) => b.duration - a.duration);
+  const formatTable = (suite: boolean) => {
+    const rows = timings
+      .filter((timing) => timing.suite === suite)
+      .slice(0, count)
+      .map(
+        ({ id, duration, folder }) =>
+          `| ${formatDuration(duration)} | ${id} |${
+            multiRoot ? ` ${folder} |` : ''
+          }`
+      );
+    if (!rows.length) return ['No timings', ''];
+    return [
+      `| Duration | Test |${multiRoot ? ' Folder |' : ''}`,
+      `| -------- | ---- |${multiRoot ? ' ------ |' : ''}`,
+      ...rows,
+      '',
+    ];
+  };
+  const lines = [
+    '# PicoTest slowest tests',
+    '',
+    `## Test cases (top ${count})`,
+    '',
+    ...formatTable(false),
+    `## Test suites (top ${count})`,
+    '',
+    ...formatTable(true),
+  ];
+  const document = await vscode.workspace.openTextDocument({
+    language: 'markdown',
+    content: lines.join('\n'),
+  });
+  await vscode.window.showTextDocument(document);
+}
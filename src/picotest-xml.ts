@@ -0,0 +1,21 @@
+/**
+ * @file XML escaping for test reports
+ */
+
+/**
+ * Escape XML special characters
+ *
+ * Control characters that are not allowed in XML 1.0, e.g. from raw test
+ * output, are replaced with U+FFFD.
+ *
+ * @param str String to escape
+ */
+export function escapeXml(str: string) {
+  return str
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g, '\uFFFD')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,79 @@
+/**
+ * @file Unit tests for path mapping
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { PicotestExecutable } from '../interfaces/picotest-executable';
+import { mapPicotestPath } from '../picotest-paths';
+
+/**
+ * Create executable with path mappings
+ *
+ * @param pathMappings Remote prefix to workspace path map
+ */
+function executable(pathMappings: {
+  [remotePath: string]: string;
+}): PicotestExecutable {
+  return {
+    id: '',
+    command: '',
+    cwd: '',
+    loadArgs: '',
+    runArgs: '',
+    env: {},
+    launcher: '',
+    record: '',
+    replay: false,
+    pathMappings,
+    tests: [],
+  };
+}
+
+const tests: { [name: string]: () => void } = {
+  'maps prefixes on path boundaries'() {
+    const mapped = executable({ '/src': '/work' });
+    assert.strictEqual(
+      mapPicotestPath(mapped, '/src/main.c'),
+      path.normalize('/work/main.c')
+    );
+    assert.strictEqual(
+      mapPicotestPath(mapped, '/src'),
+      path.normalize('/work')
+    );
+    assert.strictEqual(mapPicotestPath(mapped, '/src2/main.c'), '/src2/main.c');
+  },
+
+  'maps prefixes ending with a separator'() {
+    const mapped = executable({ '/src/': '/work/' });
+    assert.strictEqual(
+      mapPicotestPath(mapped, '/src/main.c'),
+      path.normalize('/work/main.c')
+    );
+  },
+
+  'maps the longest matching prefix'() {
+    const mapped = executable({ '/src': '/work', '/src/lib': '/lib' });
+    assert.strictEqual(
+      mapPicotestPath(mapped, '/src/lib/util.c'),
+      path.normalize('/lib/util.c')
+    );
+    assert.strictEqual(
+      mapPicotestPath(mapped, '/src/library.c'),
+      path.normalize('/work/library.c')
+    );
+  },
+};
+
+let failed = 0;
+for (const name of Object.keys(tests)) {
+  try {
+    tests[name]();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    failed++;
+    console.log(`not ok - ${name}\n${e.message}`);
+  }
+}
+process.exitCode = failed ? 1 : 0;
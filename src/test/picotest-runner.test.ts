@@ -0,0 +1,187 @@
+/**
+ * @file Unit tests for PicoTest output parsing
+ */
+
+import * as assert from 'assert';
+import { PassThrough } from 'stream';
+
+import {
+  parseJsonObjects,
+  getPicotestComparison,
+  PicotestFailureEvent,
+} from '../picotest-runner';
+
+/**
+ * Parse stream chunks into events & text
+ *
+ * Consecutive text pieces are joined.
+ *
+ * @param chunks Stream chunks
+ */
+function parse(chunks: string[]): Promise<(object | string)[]> {
+  return new Promise((resolve) => {
+    const stream = new PassThrough();
+    const results: (object | string)[] = [];
+    parseJsonObjects(
+      stream,
+      (data) => results.push(data),
+      (text) => {
+        const last = results.length - 1;
+        if (typeof results[last] === 'string') results[last] += text;
+        else results.push(text);
+      },
+      (data) => typeof data.hook === 'string'
+    );
+    stream.on('end', () => resolve(results));
+    chunks.forEach((chunk) => stream.write(chunk));
+    stream.end();
+  });
+}
+
+/**
+ * Get comparison from failure message
+ *
+ * @param msg Failure message
+ */
+function compare(msg: string) {
+  const event: PicotestFailureEvent = {
+    hook: 'FAILURE',
+    file: 'test.c',
+    line: 1,
+    type: 'ASSERT',
+    test: 'x == y',
+    msg,
+  };
+  return getPicotestComparison(event);
+}
+
+const tests: { [name: string]: () => Promise<void> } = {
+  async 'parses objects on their own lines'() {
+    assert.deepStrictEqual(
+      await parse(['{"hook":"CASE_ENTER"}\n{"hook":', '"CASE_LEAVE"}\n']),
+      [{ hook: 'CASE_ENTER' }, { hook: 'CASE_LEAVE' }]
+    );
+  },
+
+  async 'passes printed text through'() {
+    assert.deepStrictEqual(
+      await parse(['{"hook":"CASE_ENTER"}\nhello\n{"hook":"CASE_LEAVE"}\n']),
+      [{ hook: 'CASE_ENTER' }, 'hello\n', { hook: 'CASE_LEAVE' }]
+    );
+  },
+
+  async 'recovers from a stray brace at line start'() {
+    assert.deepStrictEqual(
+      await parse([
+        '{"hook":"CASE_ENTER","testName":"a"}\n',
+        '{ open\n',
+        '{"hook":"CASE_LEAVE","testName":"a"}\n',
+        '{"hook":"CASE_ENTER","testName":"b"}\n',
+      ]),
+      [
+        { hook: 'CASE_ENTER', testName: 'a' },
+        '{ open\n',
+        { hook: 'CASE_LEAVE', testName: 'a' },
+        { hook: 'CASE_ENTER', testName: 'b' },
+      ]
+    );
+  },
+
+  async 'parses events after output with no trailing newline'() {
+    assert.deepStrictEqual(
+      await parse([
+        '{"hook":"CASE_ENTER","testName":"a"}\n',
+        'progress...{"hook":"FAILURE","line":1}\n',
+        'done{"hook":"CASE_LEAVE","testName":"a"}\n',
+      ]),
+      [
+        { hook: 'CASE_ENTER', testName: 'a' },
+        'progress...',
+        { hook: 'FAILURE', line: 1 },
+        'done',
+        { hook: 'CASE_LEAVE', testName: 'a' },
+      ]
+    );
+  },
+
+  async 'resynchronizes on events after a stray brace'() {
+    assert.deepStrictEqual(
+      await parse(['print { open{"hook":"CASE_LEAVE","testName":"a"}\n']),
+      ['print { open', { hook: 'CASE_LEAVE', testName: 'a' }]
+    );
+  },
+
+  async 'ignores braces inside printed lines'() {
+    assert.deepStrictEqual(
+      await parse([
+        'print { open\n',
+        '{"hook":"CASE_LEAVE","testName":"a"}\n',
+        'x = {"a":1}\n',
+      ]),
+      ['print { open\n', { hook: 'CASE_LEAVE', testName: 'a' }, 'x = {"a":1}\n']
+    );
+  },
+
+  async 'parses labeled comparison lines'() {
+    assert.deepStrictEqual(compare('Expected: 0x01 0x02\nActual: 0x01 0x03'), {
+      expected: '0x01 0x02',
+      actual: '0x01 0x03',
+    });
+    assert.deepStrictEqual(
+      compare('values differ\n  expected : [1, 2]\r\n  got : [1, 3]\n'),
+      { expected: '[1, 2]', actual: '[1, 3]' }
+    );
+  },
+
+  async 'parses quoted comparison values'() {
+    assert.deepStrictEqual(compare('expected "abc", got "abd"'), {
+      expected: 'abc',
+      actual: 'abd',
+    });
+    assert.deepStrictEqual(compare('Expected "a\\nb" but was "a\\nc"'), {
+      expected: 'a\nb',
+      actual: 'a\nc',
+    });
+    assert.deepStrictEqual(
+      compare('expected: "say \\"hi\\", bye"; actual: "say hi"'),
+      { expected: 'say "hi", bye', actual: 'say hi' }
+    );
+  },
+
+  async 'parses inline labeled comparisons'() {
+    assert.deepStrictEqual(compare('expected: 1, actual: 2'), {
+      expected: '1',
+      actual: '2',
+    });
+    assert.deepStrictEqual(compare('check failed: expected: 1.5; got: 2'), {
+      expected: '1.5',
+      actual: '2',
+    });
+  },
+
+  async 'ignores other failure messages'() {
+    for (const msg of [
+      'expected value was wrong',
+      'Expected x to be positive but was -1',
+      'expected 3 items, got 2 items',
+      'value was not expected, got an error',
+      'expected: non-null',
+    ]) {
+      assert.strictEqual(compare(msg), undefined, msg);
+    }
+  },
+};
+
+(async () => {
+  let failed = 0;
+  for (const name of Object.keys(tests)) {
+    try {
+      await tests[name]();
+      console.log(`ok - ${name}`);
+    } catch (e) {
+      failed++;
+      console.log(`not ok - ${name}\n${e.message}`);
+    }
+  }
+  process.exitCode = failed ? 1 : 0;
+})();
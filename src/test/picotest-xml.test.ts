@@ -0,0 +1,39 @@
+/**
+ * @file Unit tests for XML escaping
+ */
+
+import * as assert from 'assert';
+
+import { escapeXml } from '../picotest-xml';
+
+const tests: { [name: string]: () => void } = {
+  'escapes special characters'() {
+    assert.strictEqual(
+      escapeXml(`<a href="x">'1' & 2</a>`),
+      '&lt;a href=&quot;x&quot;&gt;&apos;1&apos; &amp; 2&lt;/a&gt;'
+    );
+  },
+
+  'replaces control characters not allowed in XML'() {
+    assert.strictEqual(
+      escapeXml('a\x00b\x08c\x0Bd\x0Ce\x1Bf\uFFFEg\uFFFF'),
+      'a\uFFFDb\uFFFDc\uFFFDd\uFFFDe\uFFFDf\uFFFDg\uFFFD'
+    );
+  },
+
+  'keeps tabs & line breaks'() {
+    assert.strictEqual(escapeXml('a\tb\nc\r\n'), 'a\tb\nc\r\n');
+  },
+};
+
+let failed = 0;
+for (const name of Object.keys(tests)) {
+  try {
+    tests[name]();
+    console.log(`ok - ${name}`);
+  } catch (e) {
+    failed++;
+    console.log(`not ok - ${name}\n${e.message}`);
+  }
+}
+process.exitCode = failed ? 1 : 0;